@@ -31,4 +31,22 @@ await esbuild.build({
     outfile: "dist/index.js",
 });
 
+// 테스트 유틸리티 (@ehfuse/mui-virtual-data-table/testing)
+const testingConfig = {
+    ...baseConfig,
+    entryPoints: ["src/testing.tsx"],
+};
+
+await esbuild.build({
+    ...testingConfig,
+    format: "esm",
+    outfile: "dist/testing.esm.js",
+});
+
+await esbuild.build({
+    ...testingConfig,
+    format: "cjs",
+    outfile: "dist/testing.js",
+});
+
 console.log("✅ Build completed successfully!");
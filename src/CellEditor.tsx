@@ -0,0 +1,255 @@
+/**
+ * CellEditor.tsx - 인라인 셀 편집기
+ *
+ * MIT License
+ *
+ * Copyright (c) 2025 KIM YOUNG JIN (ehfuse@gmail.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import React, { useRef, useState } from "react";
+import { Box, Checkbox, TextField } from "@mui/material";
+import { getFieldValue } from "./columns";
+import { toDateKey } from "./filtering";
+import type { ResolvedLocaleText } from "./localeText";
+import type { DataColumn, RowId } from "./types";
+
+/** 편집 시작 값 (getEditValue 가 없으면 id 필드 값) */
+function getInitialEditValue<T>(column: DataColumn<T>, item: T): unknown {
+    const value = column.getEditValue
+        ? column.getEditValue(item)
+        : getFieldValue(item, column);
+    switch (column.editor) {
+        case "number":
+            // 입력 중간 상태("-", "1." 등)를 유지하기 위해 문자열로 편집한다.
+            return value === null || value === undefined ? "" : String(value);
+        case "date":
+            return toDateKey(value) ?? "";
+        case "checkbox":
+            return !!value;
+        default:
+            return value ?? "";
+    }
+}
+
+/** 편집 값을 저장할 값으로 변환한다. 변환할 수 없으면 오류 메시지를 반환한다. */
+function toCommitValue<T>(
+    column: DataColumn<T>,
+    value: unknown,
+    localeText: ResolvedLocaleText,
+): { value: unknown; error?: string } {
+    switch (column.editor) {
+        case "number": {
+            const text = String(value ?? "").trim();
+            if (text === "") {
+                return { value: null };
+            }
+            const num = Number(text);
+            return Number.isNaN(num)
+                ? { value, error: localeText.invalidNumber }
+                : { value: num };
+        }
+        case "date":
+            return { value: value === "" ? null : value };
+        default:
+            return { value };
+    }
+}
+
+interface CellEditorProps<T> {
+    column: DataColumn<T>;
+    item: T;
+    index: number;
+    rowId: RowId;
+    onCommit: (value: unknown, moveNext: boolean) => void;
+    onCancel: () => void;
+    localeText: ResolvedLocaleText;
+}
+
+/**
+ * 셀 편집기
+ * 입력 값은 편집기 내부 상태로 두어 입력 중에 행 전체가 다시 렌더링되지 않게 한다.
+ * Enter/Tab(다음 편집 셀로 이동)/포커스 이탈은 저장, Esc 는 취소한다.
+ */
+export function CellEditor<T>({
+    column,
+    item,
+    index,
+    rowId,
+    onCommit,
+    onCancel,
+    localeText,
+}: CellEditorProps<T>) {
+    const [value, setValue] = useState(() => getInitialEditValue(column, item));
+    const [error, setError] = useState<string | null>(null);
+    // 저장/취소 후 언마운트 중에 발생하는 blur 로 다시 저장되지 않도록 한다.
+    const doneRef = useRef(false);
+
+    const commit = (nextValue: unknown = value, moveNext = false) => {
+        if (doneRef.current) {
+            return;
+        }
+        const converted = toCommitValue(column, nextValue, localeText);
+        const message =
+            converted.error ?? column.validate?.(converted.value, item) ?? null;
+        if (message) {
+            setError(message);
+            return;
+        }
+        doneRef.current = true;
+        onCommit(converted.value, moveNext);
+    };
+
+    const cancel = () => {
+        if (doneRef.current) {
+            return;
+        }
+        doneRef.current = true;
+        onCancel();
+    };
+
+    const handleChange = (nextValue: unknown) => {
+        setValue(nextValue);
+        setError(null);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        // 테이블 키보드 탐색으로 전파되지 않게 한다.
+        e.stopPropagation();
+        if (e.key === "Enter") {
+            e.preventDefault();
+            commit();
+        } else if (e.key === "Tab") {
+            e.preventDefault();
+            commit(value, true);
+        } else if (e.key === "Escape") {
+            e.preventDefault();
+            cancel();
+        }
+    };
+
+    let editor: React.ReactNode;
+    if (column.renderEditCell) {
+        editor = column.renderEditCell({
+            item,
+            index,
+            rowId,
+            columnId: String(column.id),
+            value,
+            error,
+            setValue: handleChange,
+            commit: (nextValue) => commit(nextValue ?? value),
+            cancel,
+        });
+    } else if (column.editor === "checkbox") {
+        editor = (
+            <Checkbox
+                size="small"
+                autoFocus
+                checked={!!value}
+                onChange={(e) => {
+                    // 체크 변경은 바로 저장한다.
+                    handleChange(e.target.checked);
+                    commit(e.target.checked);
+                }}
+                onBlur={() => commit()}
+                sx={{ padding: 0 }}
+            />
+        );
+    } else {
+        const isSelect = column.editor === "select";
+        editor = (
+            <TextField
+                variant="standard"
+                size="small"
+                fullWidth
+                autoFocus
+                error={!!error}
+                type={column.editor === "date" ? "date" : undefined}
+                select={isSelect}
+                // 포털 메뉴가 열리면서 blur 로 저장되지 않도록 네이티브 select 를 쓴다.
+                SelectProps={isSelect ? { native: true } : undefined}
+                inputProps={{
+                    inputMode:
+                        column.editor === "number" ? "decimal" : undefined,
+                }}
+                value={
+                    isSelect
+                        ? String(value ?? "")
+                        : ((value as string | number | undefined) ?? "")
+                }
+                onChange={(e) => {
+                    if (!isSelect) {
+                        handleChange(e.target.value);
+                        return;
+                    }
+                    // select 는 원래 옵션 값 타입(숫자/boolean)으로 되돌린다.
+                    const option = column.editOptions?.find(
+                        (opt) => String(opt.value) === e.target.value,
+                    );
+                    handleChange(option ? option.value : e.target.value);
+                }}
+                onBlur={() => commit()}
+            >
+                {isSelect &&
+                    (column.editOptions ?? []).map((option) => (
+                        <option
+                            key={String(option.value)}
+                            value={String(option.value)}
+                        >
+                            {option.label ?? String(option.value)}
+                        </option>
+                    ))}
+            </TextField>
+        );
+    }
+
+    return (
+        <Box
+            onKeyDown={handleKeyDown}
+            onMouseDown={(e) => e.stopPropagation()}
+            onClick={(e) => e.stopPropagation()}
+            onDoubleClick={(e) => e.stopPropagation()}
+            sx={{ position: "relative", userSelect: "text" }}
+        >
+            {editor}
+            {error && (
+                <Box
+                    role="alert"
+                    sx={{
+                        position: "absolute",
+                        top: "100%",
+                        left: 0,
+                        zIndex: 3,
+                        marginTop: "2px",
+                        padding: "2px 6px",
+                        borderRadius: 1,
+                        whiteSpace: "nowrap",
+                        fontSize: "0.75rem",
+                        color: "error.contrastText",
+                        backgroundColor: "error.main",
+                    }}
+                >
+                    {error}
+                </Box>
+            )}
+        </Box>
+    );
+}
@@ -0,0 +1,206 @@
+/**
+ * ColumnChooser.tsx - 컬럼 표시 여부 선택 메뉴
+ *
+ * MIT License
+ *
+ * Copyright (c) 2025 KIM YOUNG JIN (ehfuse@gmail.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import React, { useState } from "react";
+import {
+    Box,
+    Button,
+    Checkbox,
+    IconButton,
+    ListSubheader,
+    MenuItem,
+    Popover,
+} from "@mui/material";
+import { getColumnGroupPath, isColumnVisible } from "./columns";
+import type { ResolvedLocaleText } from "./localeText";
+import type { ColumnVisibility, DataColumn } from "./types";
+
+// 팝오버는 포털로 렌더되지만 React 이벤트는 헤더 셀(순서 변경/정렬)과 테이블(키보드 탐색)로 전파되므로 막는다.
+const stopPropagation = (e: React.SyntheticEvent) => e.stopPropagation();
+
+/** 컬럼 선택 아이콘 (ViewColumn 모양) */
+function ColumnsIcon() {
+    return (
+        <svg width="18" height="18" viewBox="0 0 24 24" aria-hidden>
+            <path
+                fill="currentColor"
+                d="M14.67 5v14H9.33V5zm1 14H21V5h-5.33zm-7.34 0V5H3v14z"
+            />
+        </svg>
+    );
+}
+
+/** 메뉴에 표시할 컬럼 이름 (text 가 문자열이 아니면 id) */
+function getColumnLabel<T>(column: DataColumn<T>): string {
+    return typeof column.text === "string" && column.text
+        ? column.text
+        : String(column.id);
+}
+
+interface ColumnChooserButtonProps<T> {
+    columns: DataColumn<T>[];
+    columnVisibility: ColumnVisibility;
+    onChange: (columnVisibility: ColumnVisibility) => void;
+    localeText: ResolvedLocaleText;
+}
+
+/**
+ * 헤더 맨 끝의 컬럼 선택 버튼과 메뉴
+ * 컬럼은 현재 순서대로, group 이 있으면 그룹 이름 아래에 모아서 나열한다.
+ * 마지막으로 남은 표시 컬럼은 숨길 수 없다.
+ */
+export function ColumnChooserButton<T>({
+    columns,
+    columnVisibility,
+    onChange,
+    localeText,
+}: ColumnChooserButtonProps<T>) {
+    const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+
+    // 그룹별로 묶는다. (그룹은 처음 나온 순서, 그룹 없는 컬럼은 이름 없는 묶음, 중첩 그룹은 "상위 / 하위")
+    const sections: { group?: string; columns: DataColumn<T>[] }[] = [];
+    columns.forEach((column) => {
+        const group = getColumnGroupPath(column).join(" / ") || undefined;
+        const section = sections.find((item) => item.group === group);
+        if (section) {
+            section.columns.push(column);
+        } else {
+            sections.push({ group, columns: [column] });
+        }
+    });
+    const visibleCount = columns.filter((column) =>
+        isColumnVisible(column, columnVisibility),
+    ).length;
+
+    const toggleColumn = (column: DataColumn<T>) => {
+        const columnId = String(column.id);
+        onChange({
+            ...columnVisibility,
+            [columnId]: !isColumnVisible(column, columnVisibility),
+        });
+    };
+
+    const showAll = () => {
+        const next: ColumnVisibility = { ...columnVisibility };
+        columns.forEach((column) => {
+            next[String(column.id)] = true;
+        });
+        onChange(next);
+    };
+
+    return (
+        <>
+            <IconButton
+                size="small"
+                aria-label={localeText.chooseColumns}
+                aria-haspopup="menu"
+                onMouseDown={stopPropagation}
+                onClick={(e) => {
+                    e.stopPropagation();
+                    setAnchorEl(e.currentTarget);
+                }}
+                sx={{ padding: "4px", color: "text.secondary" }}
+            >
+                <ColumnsIcon />
+            </IconButton>
+            <Popover
+                open={!!anchorEl}
+                anchorEl={anchorEl}
+                onClose={() => setAnchorEl(null)}
+                anchorOrigin={{ vertical: "bottom", horizontal: "right" }}
+                transformOrigin={{ vertical: "top", horizontal: "right" }}
+                onMouseDown={stopPropagation}
+                onClick={stopPropagation}
+                onKeyDown={stopPropagation}
+            >
+                <Box
+                    role="menu"
+                    aria-label={localeText.columns}
+                    sx={{ minWidth: 220, maxHeight: 400, overflowY: "auto" }}
+                >
+                    {sections.map((section, sectionIndex) => (
+                        <React.Fragment
+                            key={section.group ?? `__${sectionIndex}`}
+                        >
+                            {section.group && (
+                                <ListSubheader sx={{ lineHeight: "36px" }}>
+                                    {section.group}
+                                </ListSubheader>
+                            )}
+                            {section.columns.map((column) => {
+                                const visible = isColumnVisible(
+                                    column,
+                                    columnVisibility,
+                                );
+                                const disabled =
+                                    column.hideable === false ||
+                                    (visible && visibleCount <= 1);
+                                return (
+                                    <MenuItem
+                                        key={String(column.id)}
+                                        role="menuitemcheckbox"
+                                        aria-checked={visible}
+                                        dense
+                                        disabled={disabled}
+                                        onClick={() => toggleColumn(column)}
+                                        sx={{
+                                            paddingLeft: section.group ? 3 : 1,
+                                        }}
+                                    >
+                                        <Checkbox
+                                            size="small"
+                                            checked={visible}
+                                            tabIndex={-1}
+                                            disableRipple
+                                            sx={{
+                                                padding: "2px",
+                                                marginRight: 1,
+                                            }}
+                                        />
+                                        {getColumnLabel(column)}
+                                    </MenuItem>
+                                );
+                            })}
+                        </React.Fragment>
+                    ))}
+                </Box>
+                <Box
+                    sx={{
+                        display: "flex",
+                        justifyContent: "flex-end",
+                        borderTop: 1,
+                        borderColor: "divider",
+                        padding: 1,
+                    }}
+                >
+                    <Button size="small" onClick={showAll}>
+                        {localeText.showAllColumns}
+                    </Button>
+                </Box>
+            </Popover>
+        </>
+    );
+}
@@ -0,0 +1,374 @@
+/**
+ * ColumnFilter.tsx - 헤더 필터 버튼과 팝오버
+ *
+ * MIT License
+ *
+ * Copyright (c) 2025 KIM YOUNG JIN (ehfuse@gmail.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import React, { useState } from "react";
+import {
+    Box,
+    Button,
+    Checkbox,
+    FormControlLabel,
+    IconButton,
+    MenuItem,
+    Popover,
+    TextField,
+} from "@mui/material";
+import { isFilterActive } from "./filtering";
+import type { ResolvedLocaleText } from "./localeText";
+import type { ColumnFilter, ColumnFilterValue } from "./types";
+
+type FilterChangeHandler = (value: ColumnFilterValue | undefined) => void;
+
+// 팝오버는 포털로 렌더되지만 React 이벤트는 헤더 셀(순서 변경/정렬)과 테이블(키보드 탐색)로 전파되므로 막는다.
+const stopPropagation = (e: React.SyntheticEvent) => e.stopPropagation();
+
+/** 입력 문자열을 숫자로 변환 (빈 값/잘못된 값은 undefined) */
+function parseNumber(text: string): number | undefined {
+    if (text.trim() === "") {
+        return undefined;
+    }
+    const num = Number(text);
+    return Number.isNaN(num) ? undefined : num;
+}
+
+interface FilterEditorProps<T> {
+    filter: ColumnFilter<T>;
+    value: ColumnFilterValue | undefined;
+    onChange: FilterChangeHandler;
+    localeText: ResolvedLocaleText;
+}
+
+/** 필터 종류별 입력 폼 (입력 즉시 적용) */
+function FilterEditor<T>({
+    filter,
+    value,
+    onChange,
+    localeText,
+}: FilterEditorProps<T>) {
+    // 숫자 입력 중간 상태("-", "1." 등)를 유지하기 위해 입력 문자열은 로컬 상태로 둔다.
+    const [minText, setMinText] = useState(() =>
+        value?.type === "number" && value.min !== undefined
+            ? String(value.min)
+            : "",
+    );
+    const [maxText, setMaxText] = useState(() =>
+        value?.type === "number" && value.max !== undefined
+            ? String(value.max)
+            : "",
+    );
+
+    // 검색어가 비어 있으면 모델에서 빠지므로 비교 방식 선택도 로컬 상태로 둔다.
+    const [operator, setOperator] = useState<"contains" | "equals">(() =>
+        value?.type === "text"
+            ? value.operator
+            : filter.type === "text"
+              ? (filter.operator ?? "contains")
+              : "contains",
+    );
+
+    switch (filter.type) {
+        case "text": {
+            const text = value?.type === "text" ? value.value : "";
+            return (
+                <>
+                    <TextField
+                        select
+                        size="small"
+                        label={localeText.filterOperator}
+                        value={operator}
+                        onChange={(e) => {
+                            const nextOperator = e.target.value as
+                                "contains" | "equals";
+                            setOperator(nextOperator);
+                            onChange({
+                                type: "text",
+                                operator: nextOperator,
+                                value: text,
+                            });
+                        }}
+                    >
+                        <MenuItem value="contains">
+                            {localeText.filterContains}
+                        </MenuItem>
+                        <MenuItem value="equals">
+                            {localeText.filterEquals}
+                        </MenuItem>
+                    </TextField>
+                    <TextField
+                        size="small"
+                        label={localeText.filterValue}
+                        autoFocus
+                        value={text}
+                        onChange={(e) =>
+                            onChange({
+                                type: "text",
+                                operator,
+                                value: e.target.value,
+                            })
+                        }
+                    />
+                </>
+            );
+        }
+        case "number": {
+            const update = (nextMin: string, nextMax: string) => {
+                setMinText(nextMin);
+                setMaxText(nextMax);
+                onChange({
+                    type: "number",
+                    min: parseNumber(nextMin),
+                    max: parseNumber(nextMax),
+                });
+            };
+            return (
+                <>
+                    <TextField
+                        size="small"
+                        label={localeText.filterMin}
+                        autoFocus
+                        inputMode="decimal"
+                        value={minText}
+                        onChange={(e) => update(e.target.value, maxText)}
+                    />
+                    <TextField
+                        size="small"
+                        label={localeText.filterMax}
+                        inputMode="decimal"
+                        value={maxText}
+                        onChange={(e) => update(minText, e.target.value)}
+                    />
+                </>
+            );
+        }
+        case "date": {
+            const current =
+                value?.type === "date" ? value : { type: "date" as const };
+            return (
+                <>
+                    <TextField
+                        size="small"
+                        type="date"
+                        label={localeText.filterFrom}
+                        InputLabelProps={{ shrink: true }}
+                        value={current.from ?? ""}
+                        onChange={(e) =>
+                            onChange({
+                                ...current,
+                                from: e.target.value || undefined,
+                            })
+                        }
+                    />
+                    <TextField
+                        size="small"
+                        type="date"
+                        label={localeText.filterTo}
+                        InputLabelProps={{ shrink: true }}
+                        value={current.to ?? ""}
+                        onChange={(e) =>
+                            onChange({
+                                ...current,
+                                to: e.target.value || undefined,
+                            })
+                        }
+                    />
+                </>
+            );
+        }
+        case "select": {
+            const selected = value?.type === "select" ? value.values : [];
+            if (filter.multiple) {
+                return (
+                    <Box sx={{ display: "flex", flexDirection: "column" }}>
+                        {filter.options.map((option) => {
+                            const checked = selected.includes(option.value);
+                            return (
+                                <FormControlLabel
+                                    key={String(option.value)}
+                                    label={option.label ?? String(option.value)}
+                                    control={
+                                        <Checkbox
+                                            size="small"
+                                            checked={checked}
+                                            onChange={() =>
+                                                onChange({
+                                                    type: "select",
+                                                    values: checked
+                                                        ? selected.filter(
+                                                              (v) =>
+                                                                  v !==
+                                                                  option.value,
+                                                          )
+                                                        : [
+                                                              ...selected,
+                                                              option.value,
+                                                          ],
+                                                })
+                                            }
+                                        />
+                                    }
+                                />
+                            );
+                        })}
+                    </Box>
+                );
+            }
+            // 단일 선택: MenuItem value 는 문자열로 다루고 원래 옵션 값으로 되돌린다.
+            const selectedKey = selected.length > 0 ? String(selected[0]) : "";
+            return (
+                <TextField
+                    select
+                    size="small"
+                    label={localeText.filterValue}
+                    value={selectedKey}
+                    onChange={(e) => {
+                        const option = filter.options.find(
+                            (opt) => String(opt.value) === e.target.value,
+                        );
+                        onChange({
+                            type: "select",
+                            values: option ? [option.value] : [],
+                        });
+                    }}
+                >
+                    <MenuItem value="">{localeText.filterAll}</MenuItem>
+                    {filter.options.map((option) => (
+                        <MenuItem
+                            key={String(option.value)}
+                            value={String(option.value)}
+                        >
+                            {option.label ?? String(option.value)}
+                        </MenuItem>
+                    ))}
+                </TextField>
+            );
+        }
+        default:
+            return null;
+    }
+}
+
+/** 필터 아이콘 (FilterList 모양) */
+function FilterIcon() {
+    return (
+        <svg width="16" height="16" viewBox="0 0 24 24" aria-hidden>
+            <path
+                fill="currentColor"
+                d="M10 18h4v-2h-4zM3 6v2h18V6zm3 7h12v-2H6z"
+            />
+        </svg>
+    );
+}
+
+interface ColumnFilterButtonProps<T> {
+    filter: ColumnFilter<T>;
+    value: ColumnFilterValue | undefined;
+    onChange: FilterChangeHandler;
+    localeText: ResolvedLocaleText;
+}
+
+/**
+ * 헤더 셀 우측의 필터 버튼과 필터 팝오버
+ * 필터가 적용된 동안에는 항상 표시되고, 아니면 헤더에 마우스를 올렸을 때만 표시된다.
+ */
+export function ColumnFilterButton<T>({
+    filter,
+    value,
+    onChange,
+    localeText,
+}: ColumnFilterButtonProps<T>) {
+    const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+    // 초기화 시 입력 폼의 로컬 상태도 비우기 위해 다시 마운트한다.
+    const [editorKey, setEditorKey] = useState(0);
+    const active = isFilterActive(value);
+
+    return (
+        <>
+            <IconButton
+                size="small"
+                aria-label={localeText.filter}
+                aria-haspopup="dialog"
+                onMouseDown={stopPropagation}
+                onClick={(e) => {
+                    e.stopPropagation();
+                    setAnchorEl(e.currentTarget);
+                }}
+                sx={{
+                    position: "absolute",
+                    top: "50%",
+                    right: "10px",
+                    transform: "translateY(-50%)",
+                    padding: "2px",
+                    color: active ? "primary.main" : "text.secondary",
+                    opacity: active || anchorEl ? 1 : 0,
+                    transition: "opacity 0.2s ease",
+                    "th:hover &, &:focus-visible": {
+                        opacity: 1,
+                    },
+                }}
+            >
+                <FilterIcon />
+            </IconButton>
+            <Popover
+                open={!!anchorEl}
+                anchorEl={anchorEl}
+                onClose={() => setAnchorEl(null)}
+                anchorOrigin={{ vertical: "bottom", horizontal: "right" }}
+                transformOrigin={{ vertical: "top", horizontal: "right" }}
+                onMouseDown={stopPropagation}
+                onClick={stopPropagation}
+                onKeyDown={stopPropagation}
+            >
+                <Box
+                    sx={{
+                        display: "flex",
+                        flexDirection: "column",
+                        gap: 1.5,
+                        padding: 2,
+                        minWidth: 220,
+                    }}
+                >
+                    <FilterEditor
+                        key={editorKey}
+                        filter={filter}
+                        value={value}
+                        onChange={onChange}
+                        localeText={localeText}
+                    />
+                    <Button
+                        size="small"
+                        disabled={!active}
+                        onClick={() => {
+                            onChange(undefined);
+                            setEditorKey((key) => key + 1);
+                        }}
+                        sx={{ alignSelf: "flex-end" }}
+                    >
+                        {localeText.filterClear}
+                    </Button>
+                </Box>
+            </Popover>
+        </>
+    );
+}
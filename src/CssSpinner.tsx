@@ -3,26 +3,43 @@
  *
  * 스타일은 자체 <style> 클래스로 주입한다(외부 스타일 의존 없음). 배경 링(연한 트랙)과
  * 회전 호(상단 색)를 한 클래스에 담는다. 앱 초기 스피너 및 대시보드 레이아웃 스피너와 동일한 모양.
+ * 색은 테마 primary 색을 CSS 변수로 넘겨 쓴다.
  */
+import type React from "react";
+import { alpha, useTheme } from "@mui/material";
+
 export interface CssSpinnerProps {
     /** 스피너 지름(px). 기본 54 */
     size?: number;
+    /** 스크린 리더용 라벨. 기본 "Loading" */
+    label?: string;
 }
 
 const SPINNER_CSS = `
-.vdt-css-spinner{box-sizing:border-box;border-radius:50%;border:4px solid rgba(28,64,125,0.14);border-top-color:#1c407d;animation:vdt-css-spinner-spin .75s linear infinite}
+.vdt-css-spinner{box-sizing:border-box;border-radius:50%;border:4px solid var(--vdt-spinner-track);border-top-color:var(--vdt-spinner-color);animation:vdt-css-spinner-spin .75s linear infinite}
 @keyframes vdt-css-spinner-spin{to{transform:rotate(360deg)}}
 `;
 
-export function CssSpinner({ size = 54 }: CssSpinnerProps) {
+export function CssSpinner({ size = 54, label = "Loading" }: CssSpinnerProps) {
+    const theme = useTheme();
+    const color = theme.palette.primary.main;
+
     return (
         <>
             <style>{SPINNER_CSS}</style>
             <span
                 className="vdt-css-spinner"
                 role="progressbar"
-                aria-label="loading"
-                style={{ display: "inline-block", width: size, height: size }}
+                aria-label={label}
+                style={
+                    {
+                        display: "inline-block",
+                        width: size,
+                        height: size,
+                        "--vdt-spinner-color": color,
+                        "--vdt-spinner-track": alpha(color, 0.14),
+                    } as React.CSSProperties
+                }
             />
         </>
     );
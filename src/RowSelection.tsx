@@ -0,0 +1,156 @@
+/**
+ * RowSelection.tsx
+ *
+ * MIT License
+ *
+ * Copyright (c) 2025 KIM YOUNG JIN (ehfuse@gmail.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import React, { useEffect, useState } from "react";
+import { Checkbox } from "@mui/material";
+import type { RowId } from "./types";
+
+/**
+ * 체크박스 컬럼이 구독하는 선택 상태 스냅샷.
+ * 선택이 바뀌어도 행/컬럼 정의를 재생성하지 않고 체크박스만 갱신하기 위해 외부 store 로 분리한다.
+ */
+export interface RowSelectionSnapshot {
+    selectedIds: ReadonlySet<RowId>;
+    allRowsSelected: boolean;
+    headerState: "none" | "some" | "all";
+    headerLabel: string;
+}
+
+export interface RowSelectionStore {
+    getSnapshot: () => RowSelectionSnapshot;
+    setSnapshot: (snapshot: RowSelectionSnapshot) => void;
+    subscribe: (listener: () => void) => () => void;
+}
+
+/** 선택 상태 store 생성 (테이블 인스턴스마다 하나) */
+export function createRowSelectionStore(): RowSelectionStore {
+    let snapshot: RowSelectionSnapshot = {
+        selectedIds: new Set<RowId>(),
+        allRowsSelected: false,
+        headerState: "none",
+        headerLabel: "",
+    };
+    const listeners = new Set<() => void>();
+
+    return {
+        getSnapshot: () => snapshot,
+        setSnapshot: (next) => {
+            snapshot = next;
+            listeners.forEach((listener) => listener());
+        },
+        subscribe: (listener) => {
+            listeners.add(listener);
+            return () => {
+                listeners.delete(listener);
+            };
+        },
+    };
+}
+
+/** store 스냅샷에서 값 하나를 골라 구독한다. 고른 값이 바뀔 때만 재렌더된다. */
+function useSelectionValue<V>(
+    store: RowSelectionStore,
+    select: (snapshot: RowSelectionSnapshot) => V,
+): V {
+    const [value, setValue] = useState(() => select(store.getSnapshot()));
+
+    useEffect(() => {
+        const update = () => setValue(select(store.getSnapshot()));
+        update();
+        return store.subscribe(update);
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [store]);
+
+    return value;
+}
+
+interface RowSelectionCheckboxProps {
+    store: RowSelectionStore;
+    rowId: RowId;
+    label: string;
+    onToggle: (event: React.MouseEvent) => void;
+}
+
+/** 행 선택 체크박스 (자기 행의 선택 여부가 바뀔 때만 재렌더) */
+export function RowSelectionCheckbox({
+    store,
+    rowId,
+    label,
+    onToggle,
+}: RowSelectionCheckboxProps) {
+    const checked = useSelectionValue(
+        store,
+        (snapshot) =>
+            snapshot.allRowsSelected || snapshot.selectedIds.has(rowId),
+    );
+
+    return (
+        <Checkbox
+            size="small"
+            checked={checked}
+            inputProps={{ "aria-label": label }}
+            onMouseDown={(e) => e.stopPropagation()}
+            onClick={(e) => {
+                // 행 클릭(onRowClick/단일 선택)으로 전파되지 않게 한다.
+                e.stopPropagation();
+                onToggle(e);
+            }}
+            sx={{ padding: 0 }}
+        />
+    );
+}
+
+interface SelectAllCheckboxProps {
+    store: RowSelectionStore;
+    onToggle: () => void;
+}
+
+/** 헤더 전체 선택 체크박스 */
+export function SelectAllCheckbox({ store, onToggle }: SelectAllCheckboxProps) {
+    const headerState = useSelectionValue(
+        store,
+        (snapshot) => snapshot.headerState,
+    );
+    const headerLabel = useSelectionValue(
+        store,
+        (snapshot) => snapshot.headerLabel,
+    );
+
+    return (
+        <Checkbox
+            size="small"
+            checked={headerState === "all"}
+            indeterminate={headerState === "some"}
+            title={headerLabel}
+            inputProps={{ "aria-label": headerLabel }}
+            onClick={(e) => {
+                e.stopPropagation();
+                onToggle();
+            }}
+            sx={{ padding: 0 }}
+        />
+    );
+}
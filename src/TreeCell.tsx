@@ -0,0 +1,115 @@
+/**
+ * TreeCell.tsx - 트리 데이터 컬럼 셀 (들여쓰기·펼침 토글)
+ *
+ * MIT License
+ *
+ * Copyright (c) 2025 KIM YOUNG JIN (ehfuse@gmail.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import React from "react";
+import { Box, IconButton } from "@mui/material";
+import { CssSpinner } from "./CssSpinner";
+import type { ResolvedLocaleText } from "./localeText";
+import type { TreeRowInfo } from "./types";
+
+// 펼침 토글 자리 너비 (자식이 없는 행도 같은 자리를 비워 두어 단계별 들여쓰기를 맞춘다)
+const TREE_TOGGLE_SIZE = 24;
+
+interface TreeCellContentProps {
+    treeRow: TreeRowInfo;
+    indent: number;
+    localeText: ResolvedLocaleText;
+    onToggle: () => void;
+    children: React.ReactNode;
+}
+
+/** 트리 컬럼 셀 내용 — 단계만큼 들여쓰고, 앞에 펼침 토글(자식을 불러오는 중이면 스피너)을 둔다. */
+export function TreeCellContent({
+    treeRow,
+    indent,
+    localeText,
+    onToggle,
+    children,
+}: TreeCellContentProps) {
+    const { depth, expandable, expanded, loading } = treeRow;
+
+    return (
+        <Box
+            sx={{
+                display: "flex",
+                alignItems: "center",
+                minWidth: 0,
+                paddingLeft: `${depth * indent}px`,
+            }}
+        >
+            <Box
+                sx={{
+                    display: "inline-flex",
+                    alignItems: "center",
+                    justifyContent: "center",
+                    flexShrink: 0,
+                    width: TREE_TOGGLE_SIZE,
+                    marginRight: "4px",
+                }}
+            >
+                {loading ? (
+                    <CssSpinner size={16} label={localeText.loading} />
+                ) : (
+                    expandable && (
+                        <IconButton
+                            size="small"
+                            aria-label={
+                                expanded
+                                    ? localeText.collapseTreeRow
+                                    : localeText.expandTreeRow
+                            }
+                            aria-expanded={expanded}
+                            onMouseDown={(e) => e.stopPropagation()}
+                            onClick={(e) => {
+                                // 행 클릭(onRowClick/선택)으로 전파되지 않게 한다.
+                                e.stopPropagation();
+                                onToggle();
+                            }}
+                            sx={{ padding: "2px", fontSize: "0.875rem" }}
+                        >
+                            <Box
+                                component="span"
+                                aria-hidden
+                                sx={{
+                                    display: "inline-block",
+                                    width: "1em",
+                                    lineHeight: 1,
+                                    transition: "transform 0.2s ease",
+                                    transform: expanded
+                                        ? "rotate(90deg)"
+                                        : "none",
+                                }}
+                            >
+                                ▸
+                            </Box>
+                        </IconButton>
+                    )
+                )}
+            </Box>
+            <Box sx={{ minWidth: 0, flex: 1 }}>{children}</Box>
+        </Box>
+    );
+}
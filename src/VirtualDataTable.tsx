@@ -25,8 +25,11 @@
  */
 
 import React, {
+    createContext,
     forwardRef,
     useCallback,
+    useContext,
+    useImperativeHandle,
     useMemo,
     useRef,
     useEffect,
@@ -34,7 +37,14 @@ import React, {
     useState,
 } from "react";
 import {
+    alpha,
+    darken,
+    lighten,
+    useTheme,
+    useThemeProps,
     Box,
+    Button,
+    IconButton,
     Table,
     TableBody as MuiTableBody,
     TableCell,
@@ -44,17 +54,52 @@ import {
     TableRow as MuiTableRow,
     TableSortLabel,
     Paper,
+    Skeleton,
     Typography,
     type SxProps,
     type Theme,
 } from "@mui/material";
-import { TableVirtuoso } from "react-virtuoso";
+import type { CSSObject } from "@mui/material/styles";
+import { GroupedTableVirtuoso, TableVirtuoso } from "react-virtuoso";
 import type { TableComponents } from "react-virtuoso";
 import { LoadingProgress } from "@ehfuse/mui-fadeout-loading-progress";
 import { CssSpinner } from "./CssSpinner";
+import {
+    createRowSelectionStore,
+    RowSelectionCheckbox,
+    SelectAllCheckbox,
+} from "./RowSelection";
+import { ColumnFilterButton } from "./ColumnFilter";
+import { CellEditor } from "./CellEditor";
+import { formatGroupValue, renderGroupAggregate } from "./grouping";
+import {
+    DEFAULT_LOCALE_TEXT,
+    formatCountText,
+    resolveLocaleText,
+} from "./localeText";
 
 import OverlayScrollbar from "@ehfuse/overlay-scrollbar";
-import type { DataColumn, SortDirection, VirtualDataTableProps } from "./types";
+import {
+    addHeaderColumns,
+    getColumnGroupPath,
+    hasGroupPathPrefix,
+    moveColumnIds,
+} from "./columns";
+import { ColumnChooserButton } from "./ColumnChooser";
+import { exportTableData } from "./export";
+import { TreeCellContent } from "./TreeCell";
+import { useVirtualDataTable } from "./useVirtualDataTable";
+import { virtualDataTableClasses } from "./virtualDataTableClasses";
+import type {
+    DataColumn,
+    HeaderGroup,
+    RowId,
+    ScrollToRowOptions,
+    TableScrollState,
+    VirtualDataTableHandle,
+    VirtualDataTableProps,
+    VisibleRange,
+} from "./types";
 
 // OverlayScrollbar 설정을 컴포넌트 외부에 상수로 선언 (재렌더링 시 동일한 참조 유지)
 const OVERLAY_SCROLLBAR_TRACK_CONFIG = {
@@ -63,41 +108,410 @@ const OVERLAY_SCROLLBAR_TRACK_CONFIG = {
     radius: 0,
 };
 const ROW_CLICK_DRAG_THRESHOLD_PX = 5;
+// 체크박스 선택 컬럼 식별자/너비
+const SELECTION_COLUMN_ID = "__vdt_selection__";
+const SELECTION_COLUMN_WIDTH = 56;
+// 상세 패널 펼침 토글 컬럼 식별자/너비
+const DETAIL_TOGGLE_COLUMN_ID = "__vdt_detail_toggle__";
+const DETAIL_TOGGLE_COLUMN_WIDTH = 48;
+
+const COLUMN_CHOOSER_COLUMN_ID = "__vdt_column_chooser__";
+const COLUMN_CHOOSER_COLUMN_WIDTH = 48;
+
+// 화면에는 보이지 않고 스크린 리더만 읽는 영역
+const VISUALLY_HIDDEN_SX = {
+    position: "absolute",
+    width: 1,
+    height: 1,
+    margin: -1,
+    padding: 0,
+    overflow: "hidden",
+    clip: "rect(0 0 0 0)",
+    whiteSpace: "nowrap",
+    border: 0,
+} as const;
+
+// 셀 범위 선택 중 포인터가 본문 밖으로 나갔을 때 프레임당 최대 자동 스크롤 거리 (px)
+const CELL_SELECTION_AUTO_SCROLL_MAX_PX = 24;
+
+/** 체크박스/펼침 토글/컬럼 선택 메뉴처럼 테이블이 덧붙이는 컬럼인지 */
+function isUtilityColumnId(columnId: string) {
+    return (
+        columnId === SELECTION_COLUMN_ID ||
+        columnId === DETAIL_TOGGLE_COLUMN_ID ||
+        columnId === COLUMN_CHOOSER_COLUMN_ID
+    );
+}
+
+/** 셀 범위 선택 (행은 data index, 컬럼은 columns index — 시작 셀(anchor)과 끝 셀(focus)) */
+interface CellRange {
+    anchorRow: number;
+    anchorColumn: number;
+    focusRow: number;
+    focusColumn: number;
+}
+
+// 희소(sparse) 모드 범위 로드 — 요청 단위 블록 크기와 스크롤이 멈춘 뒤 요청할 때까지의 대기 시간
+const SPARSE_BLOCK_SIZE = 50;
+const SPARSE_RANGE_DEBOUNCE_MS = 100;
+// 셀 편집 상태 맵의 키 (행 식별자 + 컬럼 id)
+const getCellKey = (rowId: RowId, columnId: string) =>
+    JSON.stringify([rowId, columnId]);
+
+// 위쪽 로드(onLoadPrevious)용 virtuoso firstItemIndex 시작값 — 앞에 행이 붙을 때마다 그 수만큼 줄인다.
+const FIRST_ITEM_INDEX_BASE = 1_000_000_000;
+
+/**
+ * next 가 prev 앞에 행을 붙인 배열이면 붙은 행 수를, 아니면 0 을 반환한다.
+ * prev 의 첫 행이 next 에서 밀려난 위치에 있는지(같은 객체 또는 같은 getRowId)로 판단한다.
+ */
+function countPrependedRows<T>(
+    prev: T[],
+    next: T[],
+    getRowId?: (item: T, index: number) => RowId,
+): number {
+    const delta = next.length - prev.length;
+    if (prev.length === 0 || delta <= 0) {
+        return 0;
+    }
+    const shifted = next[delta];
+    const first = prev[0];
+    if (shifted === first) {
+        return delta;
+    }
+    if (
+        getRowId &&
+        shifted !== undefined &&
+        first !== undefined &&
+        getRowId(shifted, delta) === getRowId(first, 0)
+    ) {
+        return delta;
+    }
+    return 0;
+}
+
+/** 스크롤 컨테이너에서 헤더/푸터에 가리지 않는 바디 영역의 화면 좌표 */
+function getBodyViewportBounds(scroller: HTMLElement) {
+    const scrollerRect = scroller.getBoundingClientRect();
+    const headEl = scroller.querySelector("thead");
+    const footEl = scroller.querySelector("tfoot");
+    return {
+        top: headEl ? headEl.getBoundingClientRect().bottom : scrollerRect.top,
+        bottom: footEl
+            ? footEl.getBoundingClientRect().top
+            : scrollerRect.bottom,
+    };
+}
+
+/** 컬럼이 해당 행에서 편집 가능한지 */
+function isCellEditable<T>(column: DataColumn<T>, item: T): boolean {
+    return typeof column.editable === "function"
+        ? column.editable(item)
+        : !!column.editable;
+}
+
+// 추정 행 높이를 계산할 때 getRowHeight 를 호출할 최대 행 수
+const ROW_HEIGHT_SAMPLE_SIZE = 200;
+
+// 리사이즈 시 컬럼 최소 너비 기본값 (px)
+const COLUMN_MIN_WIDTH = 40;
+// 고정 컬럼 경계 그림자 (내용이 고정 컬럼 아래로 스크롤될 때 표시)
+const PINNED_LEFT_SHADOW = "4px 0 6px -2px rgba(0, 0, 0, 0.15)";
+const PINNED_RIGHT_SHADOW = "-4px 0 6px -2px rgba(0, 0, 0, 0.15)";
+
+// 행 구분선 색 — MUI TableCell 과 같이 palette.divider 를 불투명하게 만든 뒤 밝기만 맞춘다.
+function getTableDividerColor(theme: Theme) {
+    return theme.palette.mode === "light"
+        ? lighten(alpha(theme.palette.divider, 1), 0.88)
+        : darken(alpha(theme.palette.divider, 1), 0.68);
+}
+
+// 테마 styleOverrides 슬롯 값을 스타일 객체로 바꾼다. (함수면 ownerState/theme 를 넘겨 호출)
+function resolveStyleOverride(
+    slot: unknown,
+    ownerState: object,
+    theme: Theme,
+): CSSObject | undefined {
+    const style =
+        typeof slot === "function" ? slot({ ownerState, theme }) : slot;
+    return style && typeof style === "object" && !Array.isArray(style)
+        ? (style as CSSObject)
+        : undefined;
+}
+
+// 선택 행 스타일의 배경색을 --vdt-row-bg 에도 넣는다. 고정 컬럼 셀은 불투명 배경 위에
+// 이 변수만 겹치므로, 빠뜨리면 선택 행에서도 고정 셀만 강조되지 않는다.
+function withPinnedRowBackground(style: SxProps<Theme>): SxProps<Theme> {
+    if (!style || typeof style !== "object" || Array.isArray(style)) {
+        return style;
+    }
+    const record = style as Record<string, unknown>;
+    const background = record.backgroundColor ?? record.bgcolor;
+    if (background === undefined || record["--vdt-row-bg"] !== undefined) {
+        return style;
+    }
+    return {
+        ...record,
+        "--vdt-row-bg": (theme: Theme) => {
+            const value =
+                typeof background === "function"
+                    ? background(theme)
+                    : background;
+            if (typeof value !== "string") {
+                return value;
+            }
+            // bgcolor 처럼 "primary.light" 같은 팔레트 경로도 실제 색으로 바꾼다.
+            const paletteValue = value
+                .split(".")
+                .reduce<unknown>(
+                    (acc, key) =>
+                        acc && typeof acc === "object"
+                            ? (acc as Record<string, unknown>)[key]
+                            : undefined,
+                    theme.palette,
+                );
+            return typeof paletteValue === "string" ? paletteValue : value;
+        },
+    } as SxProps<Theme>;
+}
+
+/**
+ * 추가/위쪽 로드 실패 시 표시할 문구.
+ * 오류 메시지 없이 실패하면 훅이 기본 문구(defaultMessage)로 만든 Error 를 넘기므로 localeText 문구(fallback)로 바꿔 표시한다.
+ */
+function getLoadErrorMessage(
+    error: unknown,
+    defaultMessage: string,
+    fallback: string,
+): string {
+    if (error instanceof Error) {
+        return error.message && error.message !== defaultMessage
+            ? error.message
+            : fallback;
+    }
+    return typeof error === "string" && error ? error : fallback;
+}
+
+/** 행/컬럼 식별자를 `[data-row-id="..."]` 같은 속성 셀렉터 값으로 쓸 수 있게 이스케이프한다. */
+function escapeAttributeValue(value: RowId): string {
+    return String(value).replace(/["\\]/g, "\\$&");
+}
+
+// 컬럼 너비 목록을 <colgroup> 에 전달한다. Table 컴포넌트(memo)를 재생성하지 않고
+// 리사이즈 중 너비만 갱신하기 위해 context 로 내려준다.
+const ColumnWidthsContext = createContext<(string | number | undefined)[]>([]);
+
+function ColumnWidthsColGroup() {
+    const widths = useContext(ColumnWidthsContext);
+    return (
+        <colgroup>
+            {widths.map((width, index) => (
+                <col key={index} style={{ width }} />
+            ))}
+        </colgroup>
+    );
+}
 
 /**
  * 데이터 기반 무한 스크롤 및 가상화를 지원하는 테이블 컴포넌트
  */
-function VirtualDataTableComponent<T>({
-    data,
-    loading = false,
-    columns,
-    onRowClick,
-    getRowId,
-    selectedRowId,
-    selectedRowSx,
-    rowHeight = 50,
-    columnHeight = 56,
-    striped,
-    rowDivider = true,
-    onSort,
-    onLoadMore,
-    sortBy,
-    sortDirection,
-    showPaper = true,
-    paddingX = "1rem",
-    paddingTop = 0,
-    paddingBottom = 0,
-    rowHoverColor,
-    rowHoverOpacity,
-    viewportBuffer,
-    overscan,
-    scrollbars,
-    emptyMessage = "NO DATA",
-    LoadingComponent,
-    showFooter,
-    footerHeight,
-    footerSx,
-}: VirtualDataTableProps<T>) {
+function VirtualDataTableComponent<T>(
+    inProps: VirtualDataTableProps<T>,
+    ref: React.ForwardedRef<VirtualDataTableHandle<T>>,
+) {
+    // 테마 defaultProps(theme.components.MuiVirtualDataTable)를 합친다. 직접 넘긴 props 가 우선한다.
+    const props = useThemeProps({
+        props: inProps,
+        name: "MuiVirtualDataTable",
+    }) as VirtualDataTableProps<T>;
+    const theme = useTheme();
+    const {
+        data: dataProp,
+        totalCount,
+        loading = false,
+        columns: columnsProp,
+        onRowClick,
+        getRowId,
+        selectedRowId,
+        selectedRowSx,
+        selectedRowIds,
+        allRowsSelected,
+        onSelectionChange,
+        checkboxSelection = false,
+        selectAllScope = "loaded",
+        activeRowId,
+        onActiveRowChange,
+        rowHeight = 50,
+        getRowHeight,
+        measureRows = false,
+        columnHeight = 56,
+        striped,
+        rowDivider = true,
+        onSort,
+        onLoadMore,
+        pageSize = 50,
+        loadMoreThreshold = 0,
+        hasMore = true,
+        onLoadPrevious,
+        hasPrevious = true,
+        initialTopMostItemIndex,
+        onLoadRange,
+        sortBy,
+        sortDirection,
+        sortModel,
+        onSortModelChange,
+        sortMode,
+        sortLocale,
+        filterModel,
+        onFilterChange,
+        filterMode,
+        groupBy,
+        collapsedGroups,
+        onCollapsedGroupsChange,
+        renderDetailPanel,
+        expandedRowIds,
+        onExpandedRowsChange,
+        getChildRows,
+        getParentId,
+        hasChildRows,
+        onLoadChildren,
+        expandedTreeRowIds,
+        onExpandedTreeRowsChange,
+        treeColumn,
+        treeIndent = 24,
+        onCellEditCommit,
+        showPaper = true,
+        paddingX = "1rem",
+        paddingTop = 0,
+        paddingBottom = 0,
+        rowHoverColor,
+        rowHoverOpacity,
+        viewportBuffer,
+        overscan,
+        scrollbars,
+        emptyMessage = "NO DATA",
+        LoadingComponent,
+        showFooter,
+        footerHeight,
+        footerSx,
+        reorderableColumns = false,
+        columnOrder,
+        onColumnOrderChange,
+        resizableColumns = false,
+        columnWidths,
+        onColumnResize,
+        columnVisibility,
+        onColumnVisibilityChange,
+        columnChooser = false,
+        stateKey,
+        stateStorage,
+        cellSelection = false,
+        copyHeaders = false,
+        ariaLabel,
+        localeText: localeTextProp,
+    } = props;
+
+    // 표시 문구 (인라인 객체로 넘겨도 components/행이 재생성되지 않도록 값으로 비교한다)
+    const localeTextKey = JSON.stringify(localeTextProp ?? {});
+    const localeText = useMemo(
+        () => resolveLocaleText(localeTextProp),
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+        [localeTextKey],
+    );
+
+    // 테마 styleOverrides 슬롯별 스타일
+    const themeStyleOverrides =
+        theme.components?.MuiVirtualDataTable?.styleOverrides;
+    const getSlotStyle = (slot: keyof typeof virtualDataTableClasses) =>
+        resolveStyleOverride(themeStyleOverrides?.[slot], props, theme);
+    // 정렬/필터/행 그룹, 컬럼 배치(순서/표시 여부/너비), 다중 선택, 추가 로드 상태와
+    // stateKey 저장은 헤드리스 훅이 관리하고 여기서는 MUI 로 그린다.
+    // 희소(sparse) 모드(onLoadRange)에서는 data 가 행 index 위치에 둔 희소 배열이고, 스크롤은 totalCount 전체를 기준으로 한다.
+    const {
+        rows: data,
+        processedRows: processedData,
+        rowCount,
+        loadedRowCount,
+        isSparse,
+        rowGroups,
+        groupByIds,
+        collapsedGroupKeys: collapsedGroupSet,
+        toggleGroup,
+        tree,
+        orderedColumns,
+        visibleColumns,
+        columnVisibility: currentColumnVisibility,
+        setColumnOrder,
+        setColumnVisibility,
+        getColumnWidth: getStoredColumnWidth,
+        setColumnWidth,
+        headerRows: dataHeaderRows,
+        sortModel: currentSortModel,
+        handleSort,
+        filterModel: currentFilterModel,
+        handleFilterChange,
+        selection: {
+            enabled: selectionEnabled,
+            selectedRowIds: currentSelectedRowIds,
+            selectedIdSet,
+            allRowsSelected: currentAllRowsSelected,
+            headerState: headerSelectionState,
+            canSelectAllRows,
+            selectRow,
+            toggleSelectAll,
+        },
+        loadMore,
+        loadPrevious,
+        getRowId: resolveRowId,
+        getRowProps,
+    } = useVirtualDataTable({
+        data: dataProp,
+        totalCount,
+        loading,
+        columns: columnsProp,
+        getRowId,
+        selectedRowIds,
+        allRowsSelected,
+        onSelectionChange,
+        checkboxSelection,
+        selectAllScope,
+        onSort,
+        onLoadMore,
+        pageSize,
+        loadMoreThreshold,
+        hasMore,
+        onLoadRange,
+        sortBy,
+        sortDirection,
+        sortModel,
+        onSortModelChange,
+        sortMode,
+        sortLocale,
+        filterModel,
+        onFilterChange,
+        filterMode,
+        groupBy,
+        collapsedGroups,
+        onCollapsedGroupsChange,
+        getChildRows,
+        getParentId,
+        hasChildRows,
+        onLoadChildren,
+        expandedTreeRowIds,
+        onExpandedTreeRowsChange,
+        columnOrder,
+        onColumnOrderChange,
+        columnVisibility,
+        onColumnVisibilityChange,
+        columnWidths,
+        onColumnResize,
+        stateKey,
+        stateStorage,
+        onLoadPrevious,
+        hasPrevious,
+    });
+    const { isLoading: isLoadingMore, check: checkLoadMoreAt } = loadMore;
+
     const defaultViewportBufferTop = Math.max(rowHeight * 12, 480);
     const defaultViewportBufferBottom = Math.max(rowHeight * 12, 480);
     const viewportBufferTop =
@@ -117,7 +531,38 @@ function VirtualDataTableComponent<T>({
                   main: overscan?.main ?? defaultOverscanMain,
                   reverse: overscan?.reverse ?? defaultOverscanReverse,
               };
-    const estimatedItemHeight = rowHeight + (rowDivider ? 1 : 0);
+    // 가변 행 높이 모드 (getRowHeight/measureRows/상세 패널) — 고정 높이를 가정하지 않고 Virtuoso 가 실제 높이를 측정한다.
+    const hasVariableRowHeights =
+        measureRows || !!getRowHeight || !!renderDetailPanel;
+    // getRowHeight 는 보통 인라인 콜백이라 ref 로 읽는다. (identity 변경으로 추정 높이/행을 다시 계산하지 않음)
+    const getRowHeightRef = useRef(getRowHeight);
+    getRowHeightRef.current = getRowHeight;
+    const hasRowHeightFn = !!getRowHeight;
+    // 아직 렌더링되지 않은 행의 추정 높이. getRowHeight 가 있으면 평균 높이로 잡아 scrollToIndex 오차를 줄인다.
+    // 행이 많아도 data 가 바뀔 때 고르게 뽑은 최대 ROW_HEIGHT_SAMPLE_SIZE 개 행만 잰다.
+    const estimatedItemHeight = useMemo(() => {
+        const dividerHeight = rowDivider ? 1 : 0;
+        const getHeight = getRowHeightRef.current;
+        if (!hasRowHeightFn || !getHeight || loadedRowCount === 0) {
+            return rowHeight + dividerHeight;
+        }
+        const step = Math.max(
+            1,
+            Math.floor(data.length / ROW_HEIGHT_SAMPLE_SIZE),
+        );
+        let total = 0;
+        let count = 0;
+        for (let index = 0; index < data.length; index += step) {
+            const item = data[index];
+            if (item !== undefined) {
+                total += getHeight(item, index);
+                count += 1;
+            }
+        }
+        return count > 0
+            ? Math.round(total / count) + dividerHeight
+            : rowHeight + dividerHeight;
+    }, [hasRowHeightFn, data, loadedRowCount, rowHeight, rowDivider]);
 
     // 선택 행 하이라이트는 selectedRowSx 가 객체(또는 미지정)면 CSS 셀렉터로 처리한다.
     // 컨테이너 sx 에 `tr[data-row-id="..."]` 규칙을 넣으면 selectedRowId 변경 시 components/행을
@@ -133,9 +578,10 @@ function VirtualDataTableComponent<T>({
         ) {
             return null;
         }
-        const escaped = String(selectedRowId).replace(/["\\]/g, "\\$&");
+        const escaped = escapeAttributeValue(selectedRowId);
         return {
-            [`& tbody tr[data-row-id="${escaped}"]`]: selectedRowSx,
+            [`& tbody tr[data-row-id="${escaped}"]`]:
+                withPinnedRowBackground(selectedRowSx),
         };
     }, [useCssRowHighlight, selectedRowId, selectedRowSx]);
 
@@ -254,7 +700,7 @@ function VirtualDataTableComponent<T>({
         };
     }, [flushPerfStats, perfDebugEnabled]);
 
-    // 각 테이블 인스턴스별로 Scroller 컴포넌트 생성 (scrollbars, paddingX를 초기값으로 고정)
+    // 각 테이블 인스턴스별로 Scroller 컴포넌트 생성 (scrollbars, paddingX, cellSelection 을 초기값으로 고정)
     const VirtuosoScroller = useMemo(
         () =>
             forwardRef<HTMLDivElement, any>((props, ref) => {
@@ -339,6 +785,12 @@ function VirtualDataTableComponent<T>({
                         detectInnerScroll={true}
                         track={OVERLAY_SCROLLBAR_TRACK_CONFIG}
                         {...scrollbars}
+                        // 셀 범위 선택을 켜면 본문 드래그는 스크롤 대신 범위 선택에 쓴다.
+                        dragScroll={
+                            cellSelection
+                                ? { ...scrollbars?.dragScroll, enabled: false }
+                                : scrollbars?.dragScroll
+                        }
                     >
                         <TableContainer
                             component={Box}
@@ -381,18 +833,18 @@ function VirtualDataTableComponent<T>({
                 );
             }),
         // eslint-disable-next-line react-hooks/exhaustive-deps
-        [], // 빈 배열: 최초 마운트 시에만 생성, scrollbars, paddingX, paddingTop, paddingBottom은 클로저로 고정
+        [], // 빈 배열: 최초 마운트 시에만 생성, scrollbars, paddingX, paddingTop, paddingBottom, cellSelection 은 클로저로 고정
     );
 
     // Striped row 배경색 계산
     const stripedRowColor = useMemo(() => {
         if (striped === true) {
-            return "#f5f5f5"; // 기본 회색
+            return theme.palette.action.hover; // 테마 기본 (다크 모드에서도 보이는 반투명 색)
         } else if (typeof striped === "string") {
             return striped; // 사용자 지정 색상
         }
         return undefined; // 배경색 없음
-    }, [striped]);
+    }, [striped, theme]);
 
     // 로딩 상태 관리 (원본 방식)
     const [internalLoading, setInternalLoading] = useState(loading);
@@ -402,7 +854,8 @@ function VirtualDataTableComponent<T>({
 
     // 로딩 상태 변경 감지
     useEffect(() => {
-        if (loading) {
+        // 추가 로드(onLoadMore) 중에는 오버레이 대신 하단 로딩 행으로 표시한다.
+        if (loading && !isLoadingMore() && !loadPrevious.isLoading()) {
             // 로딩이 시작되면 즉시 표시
             setInternalLoading(true);
         }
@@ -421,303 +874,1998 @@ function VirtualDataTableComponent<T>({
     // 더보기 로딩 여부 (데이터가 있고 로딩 중이면 더보기 로딩)
     const isLoadMoreLoading = loading && data.length > 0;
 
-    // 무한 스크롤 로딩 상태 (기존 VirtualDataTable 방식)
-    const isLoadingMoreRef = useRef(false);
     const virtuosoRef = useRef<any>(null); // TableVirtuoso ref
 
-    // 소비처가 인라인으로 넘기는 콜백(onRowClick/getRowId)은 매 렌더마다 identity 가 바뀐다.
+    // 소비처가 인라인으로 넘기는 콜백(onRowClick/getRowHeight)은 매 렌더마다 identity 가 바뀐다.
     // 이를 ref 로 잡아 두면 VirtuosoTableComponents(memo)를 재생성하지 않아도 최신 콜백을 쓸 수 있어,
     // 검색/필터로 부모가 리렌더돼도 행(및 이미지)이 리마운트되지 않는다(사진 깜빡임 방지).
     const onRowClickRef = useRef(onRowClick);
     onRowClickRef.current = onRowClick;
-    const getRowIdRef = useRef(getRowId);
-    getRowIdRef.current = getRowId;
+    // getRowProps 는 선택 상태에 따라 바뀌므로 행에서는 ref 로 읽는다. (선택 하이라이트 갱신은 아래 deps 가 맡는다)
+    const getRowPropsRef = useRef(getRowProps);
+    getRowPropsRef.current = getRowProps;
+    // 그룹 모드(GroupedTableVirtuoso)는 data 를 넘기지 않으므로 TableRow 가 index 로 행을 찾는다.
+    const dataRef = useRef(data);
+    dataRef.current = data;
     // truthiness 가 바뀌면(클릭 가능 여부) hover/cursor 스타일이 달라지므로 deps 에는 boolean 만 넣는다.
     const hasRowClick = !!onRowClick;
 
-    // 스크롤 컨테이너 참조 (OverlayScrollbar용)
-    const isScrollDraggingRef = useRef(false); // OverlayScrollbar 드래그 스크롤 감지용
-    const mouseDownPositionRef = useRef({ x: 0, y: 0 }); // 마우스 다운 시작 위치
+    // 스크롤 컨테이너 DOM (키보드 탐색 시 행 가시 영역 판별용)
+    const scrollerElRef = useRef<HTMLElement | null>(null);
+    const tableRootRef = useRef<HTMLDivElement | null>(null);
+    const scrollerCleanupRef = useRef<(() => void) | null>(null);
 
+    // 단일 선택(selectedRowId)의 aria-selected — CSS 하이라이트 모드에서는 selectedRowId 가 바뀌어도 행을 재렌더하지 않으므로
+    // 새로 그리는 행은 ref 로 읽고, 이미 그려진 행은 속성만 바꾼다. (다중 선택이면 getRowProps 의 aria-selected 를 쓴다)
+    const selectedRowIdRef = useRef(selectedRowId);
+    selectedRowIdRef.current = selectedRowId;
     useEffect(() => {
-        const handleDocumentMouseMove = (event: MouseEvent) => {
-            const dx = event.clientX - mouseDownPositionRef.current.x;
-            const dy = event.clientY - mouseDownPositionRef.current.y;
-            if (Math.sqrt(dx * dx + dy * dy) > ROW_CLICK_DRAG_THRESHOLD_PX) {
-                isScrollDraggingRef.current = true;
+        const root = tableRootRef.current;
+        if (!root || selectionEnabled || selectedRowId === undefined) {
+            return;
+        }
+        root.querySelectorAll<HTMLElement>("tbody tr[data-row-id]").forEach(
+            (rowEl) => {
+                rowEl.setAttribute(
+                    "aria-selected",
+                    String(
+                        selectedRowId !== null &&
+                            rowEl.dataset.rowId === String(selectedRowId),
+                    ),
+                );
+            },
+        );
+    }, [selectionEnabled, selectedRowId]);
+
+    // 가로 스크롤 위치에 따라 고정 컬럼 경계 그림자 표시 여부를 컨테이너 data 속성으로 토글한다.
+    const updatePinnedShadows = useCallback(() => {
+        const scroller = scrollerElRef.current;
+        const root = tableRootRef.current;
+        if (!scroller || !root) {
+            return;
+        }
+        root.toggleAttribute("data-vdt-scrolled-left", scroller.scrollLeft > 0);
+        root.toggleAttribute(
+            "data-vdt-scrolled-right",
+            scroller.scrollLeft + scroller.clientWidth <
+                scroller.scrollWidth - 1,
+        );
+    }, []);
+
+    const handleScrollerRef = useCallback(
+        (el: HTMLElement | Window | null) => {
+            scrollerCleanupRef.current?.();
+            scrollerCleanupRef.current = null;
+            scrollerElRef.current = el instanceof HTMLElement ? el : null;
+
+            const scroller = scrollerElRef.current;
+            if (!scroller) {
+                return;
             }
-        };
+            scroller.addEventListener("scroll", updatePinnedShadows, {
+                passive: true,
+            });
+            const rafId = requestAnimationFrame(updatePinnedShadows);
+            scrollerCleanupRef.current = () => {
+                scroller.removeEventListener("scroll", updatePinnedShadows);
+                cancelAnimationFrame(rafId);
+            };
+        },
+        [updatePinnedShadows],
+    );
 
-        document.addEventListener("mousemove", handleDocumentMouseMove);
-        return () => {
-            document.removeEventListener("mousemove", handleDocumentMouseMove);
+    // 상세 패널 펼침 (expandedRowIds 를 넘기면 controlled, 아니면 내부 상태)
+    const [internalExpandedRowIds, setInternalExpandedRowIds] = useState<
+        RowId[]
+    >([]);
+    const currentExpandedRowIds = expandedRowIds ?? internalExpandedRowIds;
+    const expandedRowIdSet = useMemo(
+        () => new Set<RowId>(currentExpandedRowIds),
+        [currentExpandedRowIds],
+    );
+    // 토글 컬럼 정의를 바꾸지 않고(행 리마운트 방지) 최신 펼침 상태를 읽도록 ref 로 참조한다.
+    const expandedRowIdSetRef = useRef(expandedRowIdSet);
+    expandedRowIdSetRef.current = expandedRowIdSet;
+
+    const toggleRowExpanded = useCallback(
+        (rowId: RowId) => {
+            const nextIds = expandedRowIdSet.has(rowId)
+                ? currentExpandedRowIds.filter((id) => id !== rowId)
+                : [...currentExpandedRowIds, rowId];
+            if (expandedRowIds === undefined) {
+                setInternalExpandedRowIds(nextIds);
+            }
+            onExpandedRowsChange?.(nextIds);
+        },
+        [
+            expandedRowIdSet,
+            currentExpandedRowIds,
+            expandedRowIds,
+            onExpandedRowsChange,
+        ],
+    );
+    const toggleRowExpandedRef = useRef(toggleRowExpanded);
+    toggleRowExpandedRef.current = toggleRowExpanded;
+
+    // virtuoso 표시 목록 — 펼친 행 바로 뒤에 상세 행을 끼워 넣는다.
+    // 펼친 행이 없으면 rows 는 null 이고 virtuoso item index 가 곧 data index 다.
+    const displayLayout = useMemo(() => {
+        const isExpanded = (index: number) =>
+            !!renderDetailPanel &&
+            data[index] !== undefined &&
+            expandedRowIdSet.has(resolveRowId(data[index], index));
+        let rows: { index: number; detail: boolean }[] | null = null;
+        let displayIndexOf: number[] | null = null;
+        if (renderDetailPanel && expandedRowIdSet.size > 0) {
+            rows = [];
+            displayIndexOf = [];
+            for (let index = 0; index < rowCount; index += 1) {
+                displayIndexOf.push(rows.length);
+                rows.push({ index, detail: false });
+                if (isExpanded(index)) {
+                    rows.push({ index, detail: true });
+                }
+            }
+        }
+
+        // 그룹별 virtuoso item 수 (접힌 그룹은 0, 펼친 상세 행 포함)
+        let groupCounts: number[] | undefined;
+        if (rowGroups) {
+            let cursor = 0;
+            groupCounts = rowGroups.map((group) => {
+                if (collapsedGroupSet.has(group.key)) {
+                    return 0;
+                }
+                let count = 0;
+                for (let i = 0; i < group.rows.length; i += 1) {
+                    count += rows && isExpanded(cursor + i) ? 2 : 1;
+                }
+                cursor += group.rows.length;
+                return count;
+            });
+        }
+
+        return {
+            rows,
+            displayIndexOf,
+            groupCounts,
+            count: rows ? rows.length : rowCount,
         };
-    }, []);
+    }, [
+        renderDetailPanel,
+        expandedRowIdSet,
+        resolveRowId,
+        data,
+        rowCount,
+        rowGroups,
+        collapsedGroupSet,
+    ]);
+    const displayRowsRef = useRef(displayLayout.rows);
+    displayRowsRef.current = displayLayout.rows;
+
+    // 위쪽 로드 — 행이 앞에 붙으면 virtuoso firstItemIndex 를 그 수만큼 줄여 보고 있던 행의 위치를 유지한다.
+    // (렌더링 중에 이전 data 와 비교해 같은 렌더에서 반영해야 스크롤이 튀지 않는다)
+    // virtuoso item index 는 firstItemIndex 만큼 밀려 있으므로 itemContent/행/range 에서 빼서 쓴다.
+    const [prependAnchor, setPrependAnchor] = useState({
+        data,
+        count: displayLayout.count,
+        firstItemIndex: onLoadPrevious ? FIRST_ITEM_INDEX_BASE : 0,
+    });
+    let firstItemIndex = prependAnchor.firstItemIndex;
+    if (prependAnchor.data !== data) {
+        if (
+            onLoadPrevious &&
+            countPrependedRows(prependAnchor.data, data, getRowId) > 0
+        ) {
+            firstItemIndex -= Math.max(
+                0,
+                displayLayout.count - prependAnchor.count,
+            );
+        }
+        setPrependAnchor({
+            data,
+            count: displayLayout.count,
+            firstItemIndex,
+        });
+    }
+    const firstItemIndexRef = useRef(firstItemIndex);
+    firstItemIndexRef.current = firstItemIndex;
+
+    // 다중 선택 체크박스 상태 store (선택 상태 자체는 훅이 관리한다)
+    const [selectionStore] = useState(createRowSelectionStore);
+    // 행/체크박스 클릭에서 components 재생성 없이 최신 핸들러를 쓰도록 ref 로 참조한다.
+    const selectRowRef = useRef(selectRow);
+    selectRowRef.current = selectRow;
+
+    // 헤더 전체 선택 체크박스 라벨
+    const headerSelectionLabel = canSelectAllRows
+        ? formatCountText(localeText.selectAllRows, totalCount ?? 0)
+        : formatCountText(localeText.selectAllLoadedRows, loadedRowCount);
+    const toggleSelectAllRef = useRef(toggleSelectAll);
+    toggleSelectAllRef.current = toggleSelectAll;
 
-    // 정렬이 변경될 때 모든 TableSortLabel의 hover 상태 초기화
     useEffect(() => {
-        // sortBy가 변경되면 모든 TableSortLabel 요소의 hover 상태를 강제로 초기화
-        const tableContainer = document.querySelector(
-            '[data-testid="virtuoso-scroller"]',
+        selectionStore.setSnapshot({
+            selectedIds: selectedIdSet,
+            allRowsSelected: currentAllRowsSelected,
+            headerState: headerSelectionState,
+            headerLabel: headerSelectionLabel,
+        });
+    }, [
+        selectionStore,
+        selectedIdSet,
+        currentAllRowsSelected,
+        headerSelectionState,
+        headerSelectionLabel,
+    ]);
+
+    // 체크박스 선택 컬럼 (체크 상태는 store 구독으로만 갱신되므로 선택 변경 시 컬럼 정의가 바뀌지 않는다)
+    const selectionColumn = useMemo<DataColumn<T>>(
+        () => ({
+            id: SELECTION_COLUMN_ID,
+            text: (
+                <SelectAllCheckbox
+                    store={selectionStore}
+                    onToggle={() => toggleSelectAllRef.current()}
+                />
+            ),
+            width: SELECTION_COLUMN_WIDTH,
+            align: "center",
+            resizable: false,
+            reorderable: false,
+            render: (item, index) => (
+                <RowSelectionCheckbox
+                    store={selectionStore}
+                    rowId={resolveRowId(item, index)}
+                    label={localeText.selectRow}
+                    onToggle={(e) =>
+                        selectRowRef.current(index, {
+                            shiftKey: e.shiftKey,
+                            toggle: true,
+                        })
+                    }
+                />
+            ),
+        }),
+        [selectionStore, resolveRowId, localeText],
+    );
+
+    // 상세 패널 펼침 토글 컬럼 (펼침 상태는 ref 로 읽으므로 펼침 변경 시 컬럼 정의가 바뀌지 않는다)
+    const detailToggleColumn = useMemo<DataColumn<T>>(
+        () => ({
+            id: DETAIL_TOGGLE_COLUMN_ID,
+            text: "",
+            width: DETAIL_TOGGLE_COLUMN_WIDTH,
+            align: "center",
+            resizable: false,
+            reorderable: false,
+            render: (item, index) => {
+                const rowId = resolveRowId(item, index);
+                const expanded = expandedRowIdSetRef.current.has(rowId);
+                return (
+                    <IconButton
+                        size="small"
+                        aria-label={
+                            expanded
+                                ? localeText.collapseRow
+                                : localeText.expandRow
+                        }
+                        aria-expanded={expanded}
+                        onMouseDown={(e) => e.stopPropagation()}
+                        onClick={(e) => {
+                            // 행 클릭(onRowClick/선택)으로 전파되지 않게 한다.
+                            e.stopPropagation();
+                            toggleRowExpandedRef.current(rowId);
+                        }}
+                        sx={{ padding: "2px", fontSize: "0.875rem" }}
+                    >
+                        <Box
+                            component="span"
+                            aria-hidden
+                            sx={{
+                                display: "inline-block",
+                                width: "1em",
+                                lineHeight: 1,
+                                transition: "transform 0.2s ease",
+                                transform: expanded ? "rotate(90deg)" : "none",
+                            }}
+                        >
+                            ▸
+                        </Box>
+                    </IconButton>
+                );
+            },
+        }),
+        [resolveRowId, localeText],
+    );
+
+    // 컬럼 선택 메뉴 컬럼 (헤더에 메뉴 버튼만 두고 바디 셀은 비운다)
+    const columnChooserColumn = useMemo<DataColumn<T>>(
+        () => ({
+            id: COLUMN_CHOOSER_COLUMN_ID,
+            text: (
+                <ColumnChooserButton
+                    columns={orderedColumns}
+                    columnVisibility={currentColumnVisibility}
+                    onChange={setColumnVisibility}
+                    localeText={localeText}
+                />
+            ),
+            width: COLUMN_CHOOSER_COLUMN_WIDTH,
+            align: "center",
+            resizable: false,
+            reorderable: false,
+            render: () => null,
+        }),
+        [
+            orderedColumns,
+            currentColumnVisibility,
+            setColumnVisibility,
+            localeText,
+        ],
+    );
+
+    // 테이블이 덧붙이는 컬럼 — 앞쪽 체크박스/펼침 토글, 뒤쪽 컬럼 선택 메뉴.
+    // 왼쪽(오른쪽) 고정 컬럼이 있으면 앞쪽(뒤쪽) 컬럼도 함께 고정한다.
+    const utilityColumns = useMemo(() => {
+        const leading = [
+            ...(checkboxSelection ? [selectionColumn] : []),
+            ...(renderDetailPanel ? [detailToggleColumn] : []),
+        ];
+        const trailing = columnChooser ? [columnChooserColumn] : [];
+        const hasLeftPinned = visibleColumns.some(
+            (col) => col.pinned === "left",
         );
-        if (tableContainer) {
-            const sortLabels = tableContainer.querySelectorAll(
-                ".MuiTableSortLabel-root",
+        const hasRightPinned = visibleColumns.some(
+            (col) => col.pinned === "right",
+        );
+        return {
+            leading: hasLeftPinned
+                ? leading.map((col) => ({ ...col, pinned: "left" as const }))
+                : leading,
+            trailing: hasRightPinned
+                ? trailing.map((col) => ({ ...col, pinned: "right" as const }))
+                : trailing,
+        };
+    }, [
+        checkboxSelection,
+        selectionColumn,
+        renderDetailPanel,
+        detailToggleColumn,
+        columnChooser,
+        columnChooserColumn,
+        visibleColumns,
+    ]);
+    // 렌더링할 컬럼 (훅의 표시 컬럼 양 끝에 덧붙인 컬럼)
+    const columns = useMemo(
+        () =>
+            utilityColumns.leading.length === 0 &&
+            utilityColumns.trailing.length === 0
+                ? visibleColumns
+                : [
+                      ...utilityColumns.leading,
+                      ...visibleColumns,
+                      ...utilityColumns.trailing,
+                  ],
+        [utilityColumns, visibleColumns],
+    );
+
+    // 트리 데이터의 들여쓰기·펼침 토글 컬럼 (treeColumn 이 없으면 첫 데이터 컬럼)
+    const isTreeData = tree !== null;
+    const treeColumnId = tree
+        ? (treeColumn ??
+          columns.find((col) => !isUtilityColumnId(String(col.id)))?.id)
+        : undefined;
+
+    // 고정 컬럼 배치 정보. 좌/우 각각 바깥쪽부터 센 순번으로 오프셋 CSS 변수(--vdt-pin-left-N)를 참조하고,
+    // 일반 영역과 맞닿은 셀(edge)에 스크롤 그림자를 표시한다.
+    const pinnedLayout = useMemo(() => {
+        const leftIds = columns
+            .filter((col) => col.pinned === "left")
+            .map((col) => String(col.id));
+        const rightIds = columns
+            .filter((col) => col.pinned === "right")
+            .map((col) => String(col.id));
+        const pins = new Map<
+            string,
+            { side: "left" | "right"; ordinal: number; isEdge: boolean }
+        >();
+        leftIds.forEach((id, index) =>
+            pins.set(id, {
+                side: "left",
+                ordinal: index,
+                isEdge: index === leftIds.length - 1,
+            }),
+        );
+        rightIds.forEach((id, index) =>
+            pins.set(id, {
+                side: "right",
+                ordinal: rightIds.length - 1 - index,
+                isEdge: index === 0,
+            }),
+        );
+        return { leftIds, rightIds, pins };
+    }, [columns]);
+
+    // 연속된 컬럼 묶음(단일 셀, 그룹 헤더, footerColSpan 병합 셀)을 고정 셀로 만드는 className/style.
+    // 묶음은 같은 쪽에 고정된 컬럼으로만 이루어진다고 가정한다.
+    const getPinnedCellProps = useCallback(
+        (spanColumns: DataColumn<T>[], zIndex: number) => {
+            const side = spanColumns[0]?.pinned;
+            if (!side) {
+                return null;
+            }
+            const spanPins = spanColumns.map((col) =>
+                pinnedLayout.pins.get(String(col.id)),
             );
-            sortLabels.forEach((label) => {
-                // 마우스 이벤트를 시뮬레이션하여 hover 상태 해제
-                const mouseLeaveEvent = new MouseEvent("mouseleave", {
-                    bubbles: true,
-                    cancelable: true,
-                });
-                label.dispatchEvent(mouseLeaveEvent);
-            });
+            const anchor =
+                side === "left" ? spanPins[0] : spanPins[spanPins.length - 1];
+            const isEdge = spanPins.some((pin) => pin?.isEdge);
+            return {
+                className: `vdt-pinned${isEdge ? ` vdt-pinned-${side}-edge` : ""}`,
+                style: {
+                    position: "sticky" as const,
+                    [side]: `var(--vdt-pin-${side}-${anchor?.ordinal ?? 0}, 0px)`,
+                    zIndex,
+                },
+            };
+        },
+        [pinnedLayout],
+    );
+
+    // 다중 선택 하이라이트도 CSS 셀렉터로 처리한다(선택 변경 시 컨테이너만 갱신).
+    // 스타일은 selectedRowSx(객체) 를 쓰고, 없으면 테마의 action.selected 배경을 쓴다.
+    const selectedRowsCssSx = useMemo<Record<string, unknown> | null>(() => {
+        if (!selectionEnabled || !useCssRowHighlight) {
+            return null;
+        }
+        const style = selectedRowSx
+            ? withPinnedRowBackground(selectedRowSx)
+            : {
+                  backgroundColor: (theme: Theme) =>
+                      theme.palette.action.selected,
+                  "--vdt-row-bg": (theme: Theme) =>
+                      theme.palette.action.selected,
+              };
+        if (currentAllRowsSelected) {
+            return { "& tbody tr[data-row-id]": style };
         }
-    }, [sortBy]);
+        if (currentSelectedRowIds.length === 0) {
+            return null;
+        }
+        const selector = currentSelectedRowIds
+            .map(
+                (rowId) =>
+                    `& tbody tr[data-row-id="${escapeAttributeValue(rowId)}"]`,
+            )
+            .join(", ");
+        return { [selector]: style };
+    }, [
+        selectionEnabled,
+        useCssRowHighlight,
+        selectedRowSx,
+        currentAllRowsSelected,
+        currentSelectedRowIds,
+    ]);
 
-    // 정렬 핸들러
-    const handleSort = useCallback(
-        (columnId: string) => {
-            if (!onSort) return;
+    // 키보드 탐색 활성 행 (activeRowId 를 넘기면 controlled, 아니면 내부 상태)
+    const [internalActiveRowId, setInternalActiveRowId] =
+        useState<RowId | null>(null);
+    const isActiveRowControlled = activeRowId !== undefined;
+    const currentActiveRowId = isActiveRowControlled
+        ? activeRowId
+        : internalActiveRowId;
+    const activeRowIndex = useMemo(() => {
+        if (currentActiveRowId === null || currentActiveRowId === undefined) {
+            return -1;
+        }
+        return data.findIndex(
+            (item, index) =>
+                item !== undefined &&
+                resolveRowId(item, index) === currentActiveRowId,
+        );
+    }, [data, currentActiveRowId, resolveRowId]);
 
-            const newDirection: SortDirection =
-                sortBy === columnId && sortDirection === "asc" ? "desc" : "asc";
+    // 활성 행 포커스 링도 선택 행과 같이 컨테이너 CSS 로 처리해 행 재렌더를 피한다.
+    // 테이블에 포커스가 있을 때만 링을 표시한다.
+    const activeRowCssSx = useMemo<Record<string, unknown> | null>(() => {
+        if (currentActiveRowId === null || currentActiveRowId === undefined) {
+            return null;
+        }
+        const escaped = escapeAttributeValue(currentActiveRowId);
+        return {
+            [`&:focus-within tbody tr[data-row-id="${escaped}"]`]: {
+                outline: (theme: Theme) =>
+                    `2px solid ${theme.palette.primary.main}`,
+                outlineOffset: "-2px",
+            },
+        };
+    }, [currentActiveRowId]);
 
-            onSort(columnId, newDirection);
+    // 지정 index 행이 헤더/푸터에 가리지 않고 보이도록 스크롤한다.
+    // 이미 완전히 보이는 행이면 스크롤하지 않는다.
+    const scrollRowIntoView = useCallback(
+        (dataIndex: number, fallbackAlign: "start" | "end") => {
+            // 상세 행이 끼어 있으면 virtuoso item index 로 바꾼다.
+            const index =
+                displayLayout.displayIndexOf?.[dataIndex] ?? dataIndex;
+            let align = fallbackAlign;
+            const scroller = scrollerElRef.current;
+            const rowEl = scroller?.querySelector(
+                `tbody tr[data-item-index="${index + firstItemIndex}"]`,
+            );
+            if (scroller && rowEl) {
+                const rowRect = rowEl.getBoundingClientRect();
+                const { top: visibleTop, bottom: visibleBottom } =
+                    getBodyViewportBounds(scroller);
+                if (
+                    rowRect.top >= visibleTop &&
+                    rowRect.bottom <= visibleBottom
+                ) {
+                    return;
+                }
+                align = rowRect.top < visibleTop ? "start" : "end";
+            }
+            virtuosoRef.current?.scrollToIndex({
+                index,
+                align,
+                behavior: "auto",
+            });
         },
-        [onSort, sortBy, sortDirection],
+        [displayLayout, firstItemIndex],
     );
 
-    // 스크롤 끝 근처에서만 추가 로드를 실행해 scroll 핫패스 부담을 줄인다.
-    const handleEndReached = useCallback(
-        (endIndex: number) => {
-            const rangeStart = perfDebugEnabled ? performance.now() : 0;
-            if (!onLoadMore) {
-                if (perfDebugEnabled) {
-                    perfStatsRef.current.rangeChangedCalls += 1;
-                    perfStatsRef.current.rangeChangedMs +=
-                        performance.now() - rangeStart;
-                }
+    // sparse 모드에서 아직 불러오지 않은 행으로 이동하면, 그 행이 로드될 때 활성 행으로 만든다.
+    const pendingActiveIndexRef = useRef<number | null>(null);
+
+    // 활성 행 변경 (범위 보정 → 상태/콜백 → 스크롤)
+    const changeActiveRow = useCallback(
+        (index: number, scroll: boolean) => {
+            if (rowCount === 0) {
                 return;
             }
-
-            if (loading && data.length === 0) {
-                if (perfDebugEnabled) {
-                    perfStatsRef.current.rangeChangedCalls += 1;
-                    perfStatsRef.current.rangeChangedMs +=
-                        performance.now() - rangeStart;
+            const nextIndex = Math.max(0, Math.min(rowCount - 1, index));
+            const item = data[nextIndex];
+            if (item === undefined) {
+                pendingActiveIndexRef.current = nextIndex;
+                if (scroll) {
+                    scrollRowIntoView(
+                        nextIndex,
+                        nextIndex < activeRowIndex ? "start" : "end",
+                    );
                 }
                 return;
             }
-
-            const hasMinimumData = data.length >= 30;
-            const nearEnd = endIndex >= data.length - 1;
-
-            if (nearEnd && hasMinimumData && !isLoadingMoreRef.current) {
-                isLoadingMoreRef.current = true;
-                const offset = data.length;
-                const limit = 50;
-                onLoadMore(offset, limit);
+            pendingActiveIndexRef.current = null;
+            const rowId = resolveRowId(item, nextIndex);
+            if (!isActiveRowControlled) {
+                setInternalActiveRowId(rowId);
             }
-
-            if (perfDebugEnabled) {
-                perfStatsRef.current.rangeChangedCalls += 1;
-                perfStatsRef.current.rangeChangedMs +=
-                    performance.now() - rangeStart;
+            if (rowId !== currentActiveRowId) {
+                onActiveRowChange?.(rowId, item, nextIndex);
+            }
+            if (scroll) {
+                scrollRowIntoView(
+                    nextIndex,
+                    nextIndex < activeRowIndex ? "start" : "end",
+                );
             }
         },
-        [data.length, loading, onLoadMore, perfDebugEnabled],
+        [
+            data,
+            rowCount,
+            resolveRowId,
+            isActiveRowControlled,
+            currentActiveRowId,
+            onActiveRowChange,
+            scrollRowIntoView,
+            activeRowIndex,
+        ],
     );
+    // 행 클릭에서 활성 행을 갱신할 때 components 를 재생성하지 않도록 ref 로 참조한다.
+    const changeActiveRowRef = useRef(changeActiveRow);
+    changeActiveRowRef.current = changeActiveRow;
 
-    // 로딩 상태가 변경되면 isLoadingMoreRef 업데이트 (기존 VirtualDataTable 방식)
     useEffect(() => {
-        if (!loading) {
-            isLoadingMoreRef.current = false;
+        const pendingIndex = pendingActiveIndexRef.current;
+        if (pendingIndex !== null && data[pendingIndex] !== undefined) {
+            changeActiveRowRef.current(pendingIndex, false);
         }
-    }, [loading]);
+    }, [data]);
 
-    // 데이터가 비워지면 테이블을 재마운트하여 스크롤을 맨 위로 이동
-    useEffect(() => {
-        if (data.length === 0) {
-            setTableKey((prev) => prev + 1);
+    // 한 페이지(PageUp/PageDown)에 해당하는 행 수 (헤더/푸터 제외 가시 높이 기준)
+    const getPageRowCount = useCallback(() => {
+        const scroller = scrollerElRef.current;
+        if (!scroller) {
+            return 10;
         }
-    }, [data.length]);
-
-    // 이전 데이터 길이를 추적
-    const prevDataLengthRef = useRef(data.length);
-
-    // 데이터가 변경되면(정렬, 필터 등) 스크롤을 맨 위로 이동
-    // 단, 무한 스크롤로 데이터가 추가될 때(길이만 증가)는 스크롤 위치 유지
-    useEffect(() => {
-        const prevLength = prevDataLengthRef.current;
-        const currentLength = data.length;
-
-        // 데이터 길이가 증가한 경우 (무한 스크롤) - 스크롤 위치 유지
-        if (currentLength > prevLength && prevLength > 0) {
-            prevDataLengthRef.current = currentLength;
-            return;
+        const headHeight =
+            scroller.querySelector("thead")?.getBoundingClientRect().height ??
+            0;
+        const footHeight =
+            scroller.querySelector("tfoot")?.getBoundingClientRect().height ??
+            0;
+        const visibleHeight = scroller.clientHeight - headHeight - footHeight;
+        // 행 높이가 가변이면 현재 렌더링된 행의 평균 높이로 계산한다.
+        let itemHeight = estimatedItemHeight;
+        if (hasVariableRowHeights) {
+            const rowEls = scroller.querySelectorAll("tbody tr[data-row-id]");
+            if (rowEls.length > 0) {
+                let total = 0;
+                rowEls.forEach((rowEl) => {
+                    total += rowEl.getBoundingClientRect().height;
+                });
+                itemHeight = total / rowEls.length;
+            }
         }
+        return Math.max(1, Math.floor(visibleHeight / itemHeight));
+    }, [estimatedItemHeight, hasVariableRowHeights]);
 
-        // 데이터가 교체된 경우 (정렬, 필터 등) - 스크롤을 맨 위로
-        if (
-            virtuosoRef.current &&
-            currentLength > 0 &&
-            currentLength <= prevLength
-        ) {
-            virtuosoRef.current.scrollToIndex({
-                index: 0,
-                align: "start",
-                behavior: "auto",
-            });
-        }
+    // 셀 편집 — 편집 중인 셀 위치만 상태로 두고 입력 값은 CellEditor 내부 상태로 관리한다.
+    // (입력 중에는 행이 다시 렌더링되지 않고, 편집 시작/종료 때만 갱신된다)
+    const [editingCell, setEditingCell] = useState<{
+        rowId: RowId;
+        columnId: string;
+    } | null>(null);
+    // 저장 Promise 가 끝날 때까지 먼저 표시할 값 / 저장 실패 오류 (셀 키별)
+    const [pendingCellValues, setPendingCellValues] = useState<
+        Record<string, { columnId: string; value: unknown }>
+    >({});
+    const [cellErrors, setCellErrors] = useState<Record<string, string>>({});
+    // 셀별 마지막 저장 요청 번호 — 같은 셀을 다시 저장하면 이전 요청의 결과는 무시한다.
+    const cellCommitIdRef = useRef(0);
+    const latestCellCommitRef = useRef<Record<string, number>>({});
 
-        prevDataLengthRef.current = currentLength;
-    }, [data]);
+    // index 행의 columnId 셀(없으면 첫 편집 가능 셀) 편집을 시작한다. 편집 가능한 셀이 없으면 false
+    const startCellEdit = useCallback(
+        (index: number, columnId?: string) => {
+            const item = data[index];
+            if (item === undefined) {
+                return false;
+            }
+            const column = columnId
+                ? columns.find((col) => String(col.id) === columnId)
+                : columns.find((col) => isCellEditable(col, item));
+            if (!column || !isCellEditable(column, item)) {
+                return false;
+            }
+            setEditingCell({
+                rowId: resolveRowId(item, index),
+                columnId: String(column.id),
+            });
+            return true;
+        },
+        [data, columns, resolveRowId],
+    );
+    const startCellEditRef = useRef(startCellEdit);
+    startCellEditRef.current = startCellEdit;
 
-    /**
-     * 테이블 고정 헤더 컨텐츠 정의 (기존 VirtualDataTable 스타일)
-     * 정렬 기능이 포함된 컬럼 헤더를 렌더링
-     */
-    const fixedHeaderContent = useCallback(() => {
-        // 1. 그룹 정보 추출
-        const groupMap: { [group: string]: DataColumn<T>[] } = {};
-        const noGroupColumns: DataColumn<T>[] = [];
-
-        columns.forEach((col) => {
-            if (col.group) {
-                if (!groupMap[col.group]) {
-                    groupMap[col.group] = [];
-                }
-                groupMap[col.group].push(col);
-            } else {
-                noGroupColumns.push(col);
+    // 편집을 마치면 키보드 탐색을 이어갈 수 있도록 테이블로 포커스를 돌린다.
+    // (포커스 이탈로 저장된 경우 사용자가 옮겨 간 다른 요소의 포커스는 빼앗지 않는다)
+    const finishCellEdit = useCallback(() => {
+        setEditingCell(null);
+        requestAnimationFrame(() => {
+            const root = tableRootRef.current;
+            const active = document.activeElement;
+            if (root && (!active || active === document.body)) {
+                root.focus({ preventScroll: true });
             }
         });
+    }, []);
 
-        // 그룹이 있는 경우 2줄 헤더, 없는 경우 1줄 헤더
-        const hasGroups = Object.keys(groupMap).length > 0;
+    const commitCellEdit = useCallback(
+        (
+            item: T,
+            index: number,
+            columnId: string,
+            value: unknown,
+            moveNext: boolean,
+        ) => {
+            const rowId = resolveRowId(item, index);
+            const cellKey = getCellKey(rowId, columnId);
 
-        if (!hasGroups) {
-            // 단일 행 헤더
-            return (
-                <MuiTableRow>
-                    {columns.map((col) => (
-                        <TableCell
-                            key={String(col.id)}
-                            align={col.align || "left"}
-                            style={{
-                                width: col.width,
-                                minWidth: col.width,
-                                ...col.style,
-                                fontWeight: "bold",
-                                position: "sticky",
-                                top: 0,
-                                zIndex: 2,
-                                padding: "16px",
-                            }}
-                        >
-                            {col.sortable ? (
-                                <div
-                                    style={{
-                                        display: "flex",
-                                        alignItems: "center",
-                                        justifyContent:
-                                            col.align === "center"
-                                                ? "center"
-                                                : col.align === "right"
-                                                  ? "flex-end"
-                                                  : "flex-start",
-                                        position: "relative",
-                                        width: "100%",
-                                    }}
-                                >
-                                    <Box
-                                        sx={{
-                                            position: "relative",
-                                            cursor: "default",
-                                            "&:hover .MuiTableSortLabel-root": {
-                                                opacity: "1 !important",
-                                                "& .MuiSvgIcon-root": {
-                                                    color: "#000",
-                                                    opacity: "1 !important",
-                                                },
-                                            },
-                                        }}
-                                        onClick={() =>
-                                            handleSort(String(col.id))
-                                        }
-                                    >
-                                        {col.text}
-                                        <TableSortLabel
-                                            active={sortBy === col.id}
-                                            direction={
-                                                sortBy === col.id
-                                                    ? sortDirection
-                                                    : "desc"
-                                            }
-                                            sx={{
-                                                position: "absolute",
-                                                left: "100%",
-                                                top: "50%",
-                                                transform: "translateY(-50%)",
-                                                marginLeft: "4px",
-                                                minWidth: "auto",
-                                                width: "16px",
-                                                height: "16px",
-                                                cursor: "default",
-                                                opacity:
-                                                    sortBy === col.id ? 1 : 0,
-                                                transition: "opacity 0.2s ease",
-                                                "& .MuiTableSortLabel-icon": {
-                                                    position: "relative",
-                                                    marginLeft: 0,
-                                                    marginRight: 0,
-                                                    opacity: 1,
-                                                    transition:
-                                                        "color 0.2s ease",
-                                                },
-                                                "& .MuiTableSortLabel-iconDirectionAsc":
-                                                    {
-                                                        transform:
-                                                            "rotate(180deg)",
-                                                    },
-                                                "& .MuiTableSortLabel-iconDirectionDesc":
-                                                    {
-                                                        transform:
-                                                            "rotate(0deg)",
-                                                    },
-                                            }}
-                                        />
-                                    </Box>
-                                </div>
-                            ) : (
-                                col.text
-                            )}
-                        </TableCell>
-                    ))}
-                </MuiTableRow>
+            // Tab: 같은 행의 다음 편집 가능 셀로 이동
+            const currentIndex = columns.findIndex(
+                (col) => String(col.id) === columnId,
+            );
+            const nextColumn = moveNext
+                ? columns
+                      .slice(currentIndex + 1)
+                      .find((col) => isCellEditable(col, item))
+                : undefined;
+            if (nextColumn) {
+                setEditingCell({ rowId, columnId: String(nextColumn.id) });
+            } else {
+                finishCellEdit();
+            }
+
+            setCellErrors((prev) => {
+                if (!(cellKey in prev)) {
+                    return prev;
+                }
+                const next = { ...prev };
+                delete next[cellKey];
+                return next;
+            });
+            const requestId = ++cellCommitIdRef.current;
+            latestCellCommitRef.current[cellKey] = requestId;
+            const clearPending = () =>
+                setPendingCellValues((prev) => {
+                    if (!(cellKey in prev)) {
+                        return prev;
+                    }
+                    const next = { ...prev };
+                    delete next[cellKey];
+                    return next;
+                });
+            const result = onCellEditCommit?.(rowId, columnId, value, item);
+            if (!result || typeof result.then !== "function") {
+                // 동기 저장은 아직 끝나지 않은 이전 저장의 표시 값을 대신한다.
+                delete latestCellCommitRef.current[cellKey];
+                clearPending();
+                return;
+            }
+
+            // 낙관적 저장: Promise 가 끝날 때까지 새 값을 표시하고, 실패하면 되돌리고 오류를 표시한다.
+            setPendingCellValues((prev) => ({
+                ...prev,
+                [cellKey]: { columnId, value },
+            }));
+            // 이 셀의 마지막 저장 요청일 때만 결과를 반영한다.
+            const settle = () => {
+                if (latestCellCommitRef.current[cellKey] !== requestId) {
+                    return false;
+                }
+                delete latestCellCommitRef.current[cellKey];
+                clearPending();
+                return true;
+            };
+            result.then(settle, (error: unknown) => {
+                if (!settle()) {
+                    return;
+                }
+                setCellErrors((prev) => ({
+                    ...prev,
+                    // 메시지가 비어 있으면 빈 오류 표시 대신 기본 문구를 쓴다.
+                    [cellKey]:
+                        (error instanceof Error
+                            ? error.message
+                            : typeof error === "string"
+                              ? error
+                              : undefined) || localeText.saveFailed,
+                }));
+            });
+        },
+        [resolveRowId, columns, finishCellEdit, onCellEditCommit, localeText],
+    );
+
+    // 키보드 탐색: 방향키/PageUp/PageDown/Home/End 로 활성 행 이동, Enter 로 행 클릭
+    // 셀 범위 선택 (cellSelection) — 행은 data index 로 저장하므로 가상화로 행 DOM 이 사라져도 유지된다.
+    const [cellRange, setCellRange] = useState<CellRange | null>(null);
+    const [isSelectingCells, setIsSelectingCells] = useState(false);
+    // 선택할 수 있는 컬럼 index 범위 (테이블이 덧붙인 컬럼은 양 끝에만 있다)
+    const selectableColumnRange = useMemo(() => {
+        const indices = columns
+            .map((col, index) =>
+                isUtilityColumnId(String(col.id)) ? -1 : index,
+            )
+            .filter((index) => index >= 0);
+        return indices.length > 0
+            ? { first: indices[0], last: indices[indices.length - 1] }
+            : null;
+    }, [columns]);
+    // 정규화한 선택 범위 (data/컬럼이 줄었으면 남은 범위로 자른다)
+    const cellRangeBounds = useMemo(() => {
+        if (
+            !cellSelection ||
+            !cellRange ||
+            !selectableColumnRange ||
+            rowCount === 0
+        ) {
+            return null;
+        }
+        const clampRow = (row: number) =>
+            Math.max(0, Math.min(rowCount - 1, row));
+        const clampColumn = (column: number) =>
+            Math.max(
+                selectableColumnRange.first,
+                Math.min(selectableColumnRange.last, column),
+            );
+        return {
+            top: clampRow(Math.min(cellRange.anchorRow, cellRange.focusRow)),
+            bottom: clampRow(Math.max(cellRange.anchorRow, cellRange.focusRow)),
+            left: clampColumn(
+                Math.min(cellRange.anchorColumn, cellRange.focusColumn),
+            ),
+            right: clampColumn(
+                Math.max(cellRange.anchorColumn, cellRange.focusColumn),
+            ),
+        };
+    }, [cellSelection, cellRange, selectableColumnRange, rowCount]);
+
+    // 선택 범위를 클립보드에 복사할 TSV 로 만든다. (값은 내보내기와 같은 exportValue/필드 값)
+    const getCellRangeText = useCallback(() => {
+        if (!cellRangeBounds) {
+            return null;
+        }
+        const rangeColumns = columns
+            .slice(cellRangeBounds.left, cellRangeBounds.right + 1)
+            .filter((col) => !isUtilityColumnId(String(col.id)));
+        const rangeRows = data
+            .slice(cellRangeBounds.top, cellRangeBounds.bottom + 1)
+            .filter((item) => item !== undefined);
+        return exportTableData(rangeColumns, rangeRows, {
+            format: "tsv",
+            includeHeaders: copyHeaders,
+            bom: false,
+        });
+    }, [cellRangeBounds, columns, data, copyHeaders]);
+
+    // copy 이벤트 — 선택 범위가 있으면 clipboardData 에 TSV 를 쓰고, 실제로 쓴 경우에만 기본 복사를 막는다.
+    // (Ctrl/Cmd+C 와 브라우저 메뉴의 복사 모두 이 경로로 들어온다)
+    const copyHandledRef = useRef(false);
+    const handleCopy = useCallback(
+        (event: React.ClipboardEvent<HTMLDivElement>) => {
+            const target = event.target as HTMLElement;
+            if (
+                target.isContentEditable ||
+                target.tagName === "INPUT" ||
+                target.tagName === "TEXTAREA" ||
+                target.tagName === "SELECT"
+            ) {
+                return;
+            }
+            const text = getCellRangeText();
+            if (text === null || !event.clipboardData) {
+                return;
+            }
+            event.clipboardData.setData("text/plain", text);
+            event.preventDefault();
+            copyHandledRef.current = true;
+        },
+        [getCellRangeText],
+    );
+
+    // 셀 mousedown — 범위 선택을 시작한다. (Shift 를 누르고 있으면 기존 시작 셀에서 범위를 넓힌다)
+    // 행 클릭 판별(mousedown 위치와 click 위치 차이)은 그대로 두므로, 드래그로 범위를 잡으면 onRowClick 은 호출되지 않는다.
+    const startCellSelection = useCallback(
+        (rowIndex: number, columnIndex: number, event: React.MouseEvent) => {
+            const target = event.target as HTMLElement;
+            if (
+                event.button !== 0 ||
+                target.closest(
+                    "input, textarea, select, button, a, [contenteditable='true']",
+                )
+            ) {
+                return;
+            }
+            setCellRange((prev) =>
+                event.shiftKey && prev
+                    ? { ...prev, focusRow: rowIndex, focusColumn: columnIndex }
+                    : {
+                          anchorRow: rowIndex,
+                          anchorColumn: columnIndex,
+                          focusRow: rowIndex,
+                          focusColumn: columnIndex,
+                      },
+            );
+            setIsSelectingCells(true);
+        },
+        [],
+    );
+    const startCellSelectionRef = useRef(startCellSelection);
+    startCellSelectionRef.current = startCellSelection;
+
+    // 드래그 중에는 포인터 아래 셀로 끝 셀을 옮기고, 본문 밖으로 나가면 그 방향으로 자동 스크롤한다.
+    // (스크롤로 새로 렌더링된 행도 포인터 위치로 다시 찾으므로 가상화 범위를 넘어 선택할 수 있다)
+    useEffect(() => {
+        if (!isSelectingCells) {
+            return;
+        }
+        let pointer: { x: number; y: number } | null = null;
+        let frameId: number | null = null;
+
+        const updateFocusFromPointer = () => {
+            const scroller = scrollerElRef.current;
+            if (!scroller || !pointer) {
+                return;
+            }
+            const bounds = getBodyViewportBounds(scroller);
+            const scrollerRect = scroller.getBoundingClientRect();
+            const x = Math.max(
+                scrollerRect.left + 1,
+                Math.min(scrollerRect.right - 1, pointer.x),
+            );
+            const y = Math.max(
+                bounds.top + 1,
+                Math.min(bounds.bottom - 1, pointer.y),
+            );
+            const cellEl = document
+                .elementFromPoint(x, y)
+                ?.closest<HTMLElement>("td[data-column-index]");
+            const rowEl = cellEl?.parentElement;
+            if (
+                !cellEl ||
+                !rowEl ||
+                !scroller.contains(rowEl) ||
+                rowEl.dataset.itemIndex === undefined
+            ) {
+                return;
+            }
+            const displayIndex =
+                Number(rowEl.dataset.itemIndex) - firstItemIndexRef.current;
+            const rowIndex =
+                displayRowsRef.current?.[displayIndex]?.index ?? displayIndex;
+            const columnIndex = Number(cellEl.dataset.columnIndex);
+            setCellRange((prev) =>
+                prev &&
+                (prev.focusRow !== rowIndex || prev.focusColumn !== columnIndex)
+                    ? { ...prev, focusRow: rowIndex, focusColumn: columnIndex }
+                    : prev,
+            );
+        };
+
+        const autoScroll = () => {
+            frameId = null;
+            const scroller = scrollerElRef.current;
+            if (!scroller || !pointer) {
+                return;
+            }
+            const bounds = getBodyViewportBounds(scroller);
+            const scrollerRect = scroller.getBoundingClientRect();
+            const getStep = (distance: number) =>
+                Math.max(
+                    -CELL_SELECTION_AUTO_SCROLL_MAX_PX,
+                    Math.min(CELL_SELECTION_AUTO_SCROLL_MAX_PX, distance),
+                );
+            const dy =
+                pointer.y < bounds.top
+                    ? getStep(pointer.y - bounds.top)
+                    : pointer.y > bounds.bottom
+                      ? getStep(pointer.y - bounds.bottom)
+                      : 0;
+            const dx =
+                pointer.x < scrollerRect.left
+                    ? getStep(pointer.x - scrollerRect.left)
+                    : pointer.x > scrollerRect.right
+                      ? getStep(pointer.x - scrollerRect.right)
+                      : 0;
+            if (dx === 0 && dy === 0) {
+                return;
+            }
+            scroller.scrollBy(dx, dy);
+            updateFocusFromPointer();
+            frameId = requestAnimationFrame(autoScroll);
+        };
+
+        const handleMouseMove = (event: MouseEvent) => {
+            pointer = { x: event.clientX, y: event.clientY };
+            updateFocusFromPointer();
+            if (frameId === null) {
+                frameId = requestAnimationFrame(autoScroll);
+            }
+        };
+        const handleMouseUp = () => {
+            setIsSelectingCells(false);
+        };
+
+        document.addEventListener("mousemove", handleMouseMove);
+        document.addEventListener("mouseup", handleMouseUp);
+        return () => {
+            document.removeEventListener("mousemove", handleMouseMove);
+            document.removeEventListener("mouseup", handleMouseUp);
+            if (frameId !== null) {
+                cancelAnimationFrame(frameId);
+            }
+        };
+    }, [isSelectingCells]);
+
+    const handleKeyDown = useCallback(
+        (event: React.KeyboardEvent<HTMLDivElement>) => {
+            const target = event.target as HTMLElement;
+            if (
+                target.isContentEditable ||
+                target.tagName === "INPUT" ||
+                target.tagName === "TEXTAREA" ||
+                target.tagName === "SELECT"
+            ) {
+                return;
+            }
+            if (rowCount === 0) {
+                return;
+            }
+
+            const hasActive = activeRowIndex >= 0;
+            // 불러오는 중인 행으로 이동해 둔 상태면 그 위치에서 이어서 이동한다.
+            const baseIndex = pendingActiveIndexRef.current ?? activeRowIndex;
+            const hasBase = baseIndex >= 0;
+
+            // 셀 범위 선택: Shift+방향키로 범위를 넓히고, Ctrl/Cmd+C 로 복사, Esc 로 해제한다.
+            if (cellSelection && selectableColumnRange) {
+                if (
+                    (event.ctrlKey || event.metaKey) &&
+                    event.key.toLowerCase() === "c"
+                ) {
+                    // 기본 동작을 막지 않고 copy 이벤트(handleCopy)에서 복사한다.
+                    // 선택한 텍스트가 없어 copy 이벤트가 오지 않는 브라우저에서는 navigator.clipboard 로 복사한다.
+                    if (cellRangeBounds) {
+                        copyHandledRef.current = false;
+                        setTimeout(() => {
+                            const text = copyHandledRef.current
+                                ? null
+                                : getCellRangeText();
+                            if (text !== null) {
+                                navigator.clipboard
+                                    ?.writeText(text)
+                                    .catch(() => {
+                                        // 권한이 없거나 보안 컨텍스트가 아니면 복사하지 않는다.
+                                    });
+                            }
+                        }, 0);
+                    }
+                    return;
+                }
+                if (event.key === "Escape" && cellRange) {
+                    event.preventDefault();
+                    setCellRange(null);
+                    return;
+                }
+                const rowDelta =
+                    event.key === "ArrowDown"
+                        ? 1
+                        : event.key === "ArrowUp"
+                          ? -1
+                          : 0;
+                const columnDelta =
+                    event.key === "ArrowRight"
+                        ? 1
+                        : event.key === "ArrowLeft"
+                          ? -1
+                          : 0;
+                if (event.shiftKey && (rowDelta !== 0 || columnDelta !== 0)) {
+                    event.preventDefault();
+                    const startRow = hasBase
+                        ? Math.min(baseIndex, rowCount - 1)
+                        : 0;
+                    const range =
+                        cellRange && cellRangeBounds
+                            ? cellRange
+                            : {
+                                  anchorRow: startRow,
+                                  anchorColumn: selectableColumnRange.first,
+                                  focusRow: startRow,
+                                  focusColumn: selectableColumnRange.first,
+                              };
+                    const focusRow = Math.max(
+                        0,
+                        Math.min(rowCount - 1, range.focusRow + rowDelta),
+                    );
+                    const focusColumn = Math.max(
+                        selectableColumnRange.first,
+                        Math.min(
+                            selectableColumnRange.last,
+                            range.focusColumn + columnDelta,
+                        ),
+                    );
+                    setCellRange({ ...range, focusRow, focusColumn });
+                    if (rowDelta !== 0) {
+                        scrollRowIntoView(
+                            focusRow,
+                            rowDelta < 0 ? "start" : "end",
+                        );
+                    }
+                    return;
+                }
+                // 수정키 없는 행 이동은 범위 선택을 해제한다.
+                if (cellRange && rowDelta !== 0) {
+                    setCellRange(null);
+                }
+            }
+
+            let nextIndex: number | null = null;
+            switch (event.key) {
+                case "ArrowDown":
+                    nextIndex = hasBase ? baseIndex + 1 : 0;
+                    break;
+                case "ArrowUp":
+                    nextIndex = hasBase ? baseIndex - 1 : 0;
+                    break;
+                case "PageDown":
+                    nextIndex = hasBase ? baseIndex + getPageRowCount() : 0;
+                    break;
+                case "PageUp":
+                    nextIndex = hasBase ? baseIndex - getPageRowCount() : 0;
+                    break;
+                case "ArrowRight":
+                case "ArrowLeft": {
+                    // 트리 데이터: → 는 펼치거나 첫 자식으로, ← 는 접거나 부모 행으로 이동한다.
+                    const treeRow = hasActive
+                        ? tree?.rows[activeRowIndex]
+                        : undefined;
+                    if (!treeRow) {
+                        return;
+                    }
+                    event.preventDefault();
+                    if (event.key === "ArrowRight") {
+                        if (treeRow.expandable && !treeRow.expanded) {
+                            tree?.toggleRow(activeRowIndex);
+                            return;
+                        }
+                        if (
+                            (tree?.rows[activeRowIndex + 1]?.depth ?? 0) <=
+                            treeRow.depth
+                        ) {
+                            return;
+                        }
+                        nextIndex = activeRowIndex + 1;
+                        break;
+                    }
+                    if (treeRow.expanded) {
+                        tree?.toggleRow(activeRowIndex);
+                        return;
+                    }
+                    let parentIndex = activeRowIndex - 1;
+                    while (
+                        parentIndex >= 0 &&
+                        (tree?.rows[parentIndex]?.depth ?? 0) >= treeRow.depth
+                    ) {
+                        parentIndex -= 1;
+                    }
+                    if (parentIndex < 0) {
+                        return;
+                    }
+                    nextIndex = parentIndex;
+                    break;
+                }
+                case "Home":
+                    nextIndex = 0;
+                    break;
+                case "End":
+                    nextIndex = rowCount - 1;
+                    break;
+                case " ":
+                    if (hasActive && selectionEnabled) {
+                        event.preventDefault();
+                        selectRow(activeRowIndex, {
+                            shiftKey: event.shiftKey,
+                            toggle: true,
+                        });
+                    }
+                    return;
+                case "Enter":
+                    // 편집 가능한 셀이 있으면 편집을 시작하고, 없으면 행 클릭으로 처리한다.
+                    if (hasActive && startCellEdit(activeRowIndex)) {
+                        event.preventDefault();
+                        return;
+                    }
+                    if (hasActive && onRowClickRef.current) {
+                        event.preventDefault();
+                        onRowClickRef.current(
+                            data[activeRowIndex],
+                            activeRowIndex,
+                        );
+                    }
+                    return;
+                default:
+                    return;
+            }
+
+            event.preventDefault();
+            changeActiveRow(nextIndex, true);
+        },
+        [
+            data,
+            rowCount,
+            activeRowIndex,
+            getPageRowCount,
+            changeActiveRow,
+            selectionEnabled,
+            selectRow,
+            startCellEdit,
+            cellSelection,
+            selectableColumnRange,
+            cellRange,
+            cellRangeBounds,
+            getCellRangeText,
+            scrollRowIntoView,
+            tree,
+        ],
+    );
+
+    // ref 명령형 API (index 는 data index — 상세 행이 끼어 있으면 virtuoso item index 로 바꾼다)
+    useImperativeHandle(ref, () => {
+        const scrollToDataIndex = (
+            index: number,
+            options?: ScrollToRowOptions,
+        ) => {
+            if (rowCount === 0) {
+                return;
+            }
+            const dataIndex = Math.max(0, Math.min(rowCount - 1, index));
+            virtuosoRef.current?.scrollToIndex({
+                index: displayLayout.displayIndexOf?.[dataIndex] ?? dataIndex,
+                align: options?.align ?? "start",
+                behavior: options?.behavior ?? "auto",
+            });
+        };
+
+        return {
+            scrollToIndex: scrollToDataIndex,
+            scrollToRowId: (rowId, options) => {
+                const index = data.findIndex(
+                    (item, i) =>
+                        item !== undefined && resolveRowId(item, i) === rowId,
+                );
+                if (index < 0) {
+                    return false;
+                }
+                scrollToDataIndex(index, options);
+                return true;
+            },
+            scrollToTop: (behavior = "auto") => {
+                virtuosoRef.current?.scrollTo({ top: 0, behavior });
+            },
+            getVisibleRange: (): VisibleRange => {
+                const range = { startIndex: -1, endIndex: -1 };
+                const scroller = scrollerElRef.current;
+                if (!scroller) {
+                    return range;
+                }
+                const bounds = getBodyViewportBounds(scroller);
+                scroller
+                    .querySelectorAll<HTMLElement>("tbody tr[data-item-index]")
+                    .forEach((rowEl) => {
+                        const rect = rowEl.getBoundingClientRect();
+                        if (
+                            rect.bottom <= bounds.top ||
+                            rect.top >= bounds.bottom
+                        ) {
+                            return;
+                        }
+                        const itemIndex =
+                            Number(rowEl.dataset.itemIndex) - firstItemIndex;
+                        const index =
+                            displayLayout.rows?.[itemIndex]?.index ?? itemIndex;
+                        // 무한 스크롤 로딩 행(마지막 여분 행)은 제외
+                        if (index >= rowCount) {
+                            return;
+                        }
+                        if (range.startIndex < 0 || index < range.startIndex) {
+                            range.startIndex = index;
+                        }
+                        if (index > range.endIndex) {
+                            range.endIndex = index;
+                        }
+                    });
+                return range;
+            },
+            getScrollState: (): TableScrollState => {
+                const scroller = scrollerElRef.current;
+                const scrollTop = scroller?.scrollTop ?? 0;
+                const scrollHeight = scroller?.scrollHeight ?? 0;
+                const clientHeight = scroller?.clientHeight ?? 0;
+                return {
+                    scrollTop,
+                    scrollLeft: scroller?.scrollLeft ?? 0,
+                    scrollHeight,
+                    scrollWidth: scroller?.scrollWidth ?? 0,
+                    clientHeight,
+                    clientWidth: scroller?.clientWidth ?? 0,
+                    atTop: scrollTop <= 0,
+                    atBottom: scrollTop + clientHeight >= scrollHeight - 1,
+                };
+            },
+            getRow: (index) => data[index],
+            focusRow: (index) => {
+                changeActiveRow(index, true);
+                tableRootRef.current?.focus({ preventScroll: true });
+            },
+            resetScroll: () => {
+                // 재마운트하면 측정된 행 높이와 스크롤 위치가 모두 초기화된다.
+                setTableKey((prev) => prev + 1);
+            },
+            // 접힌 그룹/트리 행도 포함하도록 표시 행 목록이 아니라 필터/정렬까지 적용한 행을 내보낸다.
+            exportData: (options) =>
+                exportTableData(
+                    visibleColumns,
+                    processedData.filter((item) => item !== undefined),
+                    options,
+                ),
+        };
+    }, [
+        data,
+        processedData,
+        visibleColumns,
+        rowCount,
+        displayLayout,
+        firstItemIndex,
+        resolveRowId,
+        changeActiveRow,
+    ]);
+
+    // 스크롤 컨테이너 참조 (OverlayScrollbar용)
+    const isScrollDraggingRef = useRef(false); // OverlayScrollbar 드래그 스크롤 감지용
+    const mouseDownPositionRef = useRef({ x: 0, y: 0 }); // 마우스 다운 시작 위치
+
+    useEffect(() => {
+        const handleDocumentMouseMove = (event: MouseEvent) => {
+            const dx = event.clientX - mouseDownPositionRef.current.x;
+            const dy = event.clientY - mouseDownPositionRef.current.y;
+            if (Math.sqrt(dx * dx + dy * dy) > ROW_CLICK_DRAG_THRESHOLD_PX) {
+                isScrollDraggingRef.current = true;
+            }
+        };
+
+        document.addEventListener("mousemove", handleDocumentMouseMove);
+        return () => {
+            document.removeEventListener("mousemove", handleDocumentMouseMove);
+        };
+    }, []);
+
+    // 정렬이 변경될 때 모든 TableSortLabel의 hover 상태 초기화
+    useEffect(() => {
+        // 정렬 모델이 변경되면 모든 TableSortLabel 요소의 hover 상태를 강제로 초기화
+        const tableContainer = document.querySelector(
+            '[data-testid="virtuoso-scroller"]',
+        );
+        if (tableContainer) {
+            const sortLabels = tableContainer.querySelectorAll(
+                ".MuiTableSortLabel-root",
+            );
+            sortLabels.forEach((label) => {
+                // 마우스 이벤트를 시뮬레이션하여 hover 상태 해제
+                const mouseLeaveEvent = new MouseEvent("mouseleave", {
+                    bubbles: true,
+                    cancelable: true,
+                });
+                label.dispatchEvent(mouseLeaveEvent);
+            });
+        }
+    }, [currentSortModel]);
+
+    // 그룹 행 컴포넌트에서 components 재생성 없이 최신 핸들러를 쓰도록 ref 로 참조한다.
+    const toggleGroupRef = useRef(toggleGroup);
+    toggleGroupRef.current = toggleGroup;
+
+    // sparse 모드 범위 로드 — 보이는 범위를 SPARSE_BLOCK_SIZE 단위 블록으로 나눠 빈 행이 있는 블록만 요청한다.
+    // 요청 중인 블록은 다시 요청하지 않는다. Promise 를 반환하면 끝날 때, 아니면 그 블록의 행이
+    // data 에 들어왔을 때(요청 시점보다 불러온 행이 늘었을 때) 요청 중 상태를 푼다.
+    const loadingBlocksRef = useRef(
+        new Map<number, { requestId: number | null; loadedCount: number }>(),
+    );
+    const loadRequestIdRef = useRef(0);
+    const lastRenderedRangeRef = useRef<{
+        startIndex: number;
+        endIndex: number;
+    } | null>(null);
+    const rangeTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+    // 블록에서 이미 불러온 행 수
+    const countLoadedBlockRows = useCallback(
+        (block: number) => {
+            const blockEnd = Math.min(rowCount, block + SPARSE_BLOCK_SIZE);
+            let count = 0;
+            for (let index = block; index < blockEnd; index += 1) {
+                if (data[index] !== undefined) {
+                    count += 1;
+                }
+            }
+            return count;
+        },
+        [data, rowCount],
+    );
+
+    const loadVisibleRange = useCallback(() => {
+        const range = lastRenderedRangeRef.current;
+        if (!onLoadRange || !range || rowCount === 0) {
+            return;
+        }
+        const toDataIndex = (displayIndex: number) =>
+            displayLayout.rows?.[displayIndex]?.index ?? displayIndex;
+        const start = Math.max(0, toDataIndex(range.startIndex));
+        const end = Math.min(rowCount - 1, toDataIndex(range.endIndex));
+        const loadingBlocks = loadingBlocksRef.current;
+
+        let runBlocks: number[] = [];
+        const requestRun = () => {
+            if (runBlocks.length === 0) {
+                return;
+            }
+            const blocks = runBlocks;
+            runBlocks = [];
+            const requestStart = blocks[0];
+            const requestEnd = Math.min(
+                rowCount,
+                blocks[blocks.length - 1] + SPARSE_BLOCK_SIZE,
+            );
+            const result = onLoadRange(requestStart, requestEnd);
+            if (!result || typeof result.then !== "function") {
+                blocks.forEach((block) =>
+                    loadingBlocks.set(block, {
+                        requestId: null,
+                        loadedCount: countLoadedBlockRows(block),
+                    }),
+                );
+                return;
+            }
+            loadRequestIdRef.current += 1;
+            const requestId = loadRequestIdRef.current;
+            blocks.forEach((block) =>
+                loadingBlocks.set(block, { requestId, loadedCount: 0 }),
             );
+            const release = () => {
+                blocks.forEach((block) => {
+                    if (loadingBlocks.get(block)?.requestId === requestId) {
+                        loadingBlocks.delete(block);
+                    }
+                });
+            };
+            result.then(release, release);
+        };
+
+        const firstBlock =
+            Math.floor(start / SPARSE_BLOCK_SIZE) * SPARSE_BLOCK_SIZE;
+        for (let block = firstBlock; block <= end; block += SPARSE_BLOCK_SIZE) {
+            const blockEnd = Math.min(rowCount, block + SPARSE_BLOCK_SIZE);
+            let hasMissingRow = false;
+            for (let index = block; index < blockEnd; index += 1) {
+                if (data[index] === undefined) {
+                    hasMissingRow = true;
+                    break;
+                }
+            }
+            if (hasMissingRow && !loadingBlocks.has(block)) {
+                runBlocks.push(block);
+            } else {
+                requestRun();
+            }
         }
+        requestRun();
+    }, [onLoadRange, rowCount, displayLayout, data, countLoadedBlockRows]);
+
+    const loadVisibleRangeRef = useRef(loadVisibleRange);
+    loadVisibleRangeRef.current = loadVisibleRange;
 
-        // 2줄 헤더 (그룹이 있는 경우)
-        const firstRowCells = [
-            ...noGroupColumns.map((col) => (
+    // 정렬/필터가 바뀌면 이전 조건의 요청은 더 기다리지 않는다.
+    // (인라인 filterModel 처럼 identity 만 바뀌는 경우는 무시하도록 값으로 비교한다)
+    const sparseQueryKey = isSparse
+        ? JSON.stringify([currentSortModel, currentFilterModel])
+        : "";
+    useEffect(() => {
+        loadingBlocksRef.current.clear();
+    }, [sparseQueryKey]);
+
+    // data 가 바뀌면 Promise 없이 요청한 블록 중 행이 들어온 블록만 풀고, 아직 비어 있는 범위를 다시 확인한다.
+    useEffect(() => {
+        if (!isSparse) {
+            return;
+        }
+        const loadingBlocks = loadingBlocksRef.current;
+        loadingBlocks.forEach(({ requestId, loadedCount }, block) => {
+            if (
+                requestId === null &&
+                countLoadedBlockRows(block) > loadedCount
+            ) {
+                loadingBlocks.delete(block);
+            }
+        });
+        loadVisibleRangeRef.current();
+    }, [isSparse, data, rowCount, countLoadedBlockRows]);
+
+    useEffect(
+        () => () => {
+            if (rangeTimerRef.current !== null) {
+                clearTimeout(rangeTimerRef.current);
+            }
+        },
+        [],
+    );
+
+    // 마지막으로 렌더링된 범위가 끝 근처면 다음 페이지를 요청한다. (표시 목록 기준 — 상세 행 포함)
+    const checkLoadMore = useCallback(() => {
+        const range = lastRenderedRangeRef.current;
+        if (range) {
+            checkLoadMoreAt(range.endIndex, displayLayout.count);
+        }
+    }, [checkLoadMoreAt, displayLayout.count]);
+    const checkLoadMoreRef = useRef(checkLoadMore);
+    checkLoadMoreRef.current = checkLoadMore;
+
+    // 렌더링 범위 변경 — sparse 모드는 범위 로드, 무한 스크롤은 끝 근처에서 추가 로드를 실행한다.
+    // sparse 범위 로드는 스크롤바를 끌어 지나가는 범위까지 요청하지 않도록 범위가 멈춘 뒤에 요청한다.
+    const handleRangeChanged = useCallback(
+        (range: { startIndex: number; endIndex: number }) => {
+            const rangeStart = perfDebugEnabled ? performance.now() : 0;
+            lastRenderedRangeRef.current = {
+                startIndex: range.startIndex - firstItemIndexRef.current,
+                endIndex: range.endIndex - firstItemIndexRef.current,
+            };
+            if (isSparse) {
+                if (rangeTimerRef.current !== null) {
+                    clearTimeout(rangeTimerRef.current);
+                }
+                rangeTimerRef.current = setTimeout(() => {
+                    rangeTimerRef.current = null;
+                    loadVisibleRangeRef.current();
+                }, SPARSE_RANGE_DEBOUNCE_MS);
+            } else {
+                checkLoadMoreRef.current();
+            }
+
+            if (perfDebugEnabled) {
+                perfStatsRef.current.rangeChangedCalls += 1;
+                perfStatsRef.current.rangeChangedMs +=
+                    performance.now() - rangeStart;
+            }
+        },
+        [isSparse, perfDebugEnabled],
+    );
+
+    // 위쪽(이전) 데이터 로드 — 맨 위 행이 렌더링되면(startReached) 요청한다. (요청/완료/실패 판단은 훅이 맡는다)
+    const { canLoadPrevious, check: handleStartReached } = loadPrevious;
+
+    // 처음 맨 위에 둘 행 (data index → virtuoso item index)
+    const initialTopIndex =
+        typeof initialTopMostItemIndex === "number"
+            ? initialTopMostItemIndex
+            : initialTopMostItemIndex?.index;
+    const initialTopAlign =
+        typeof initialTopMostItemIndex === "number"
+            ? undefined
+            : initialTopMostItemIndex?.align;
+    const virtuosoInitialTopMostItemIndex = useMemo(
+        () =>
+            initialTopIndex === undefined
+                ? undefined
+                : {
+                      index:
+                          displayLayout.displayIndexOf?.[initialTopIndex] ??
+                          initialTopIndex,
+                      align: initialTopAlign,
+                  },
+        [initialTopIndex, initialTopAlign, displayLayout.displayIndexOf],
+    );
+
+    // 행이 추가되면 새 페이지가 화면을 다 채우지 못했을 때 이어서 요청한다.
+    // (추가/위쪽 로드 완료 처리는 훅의 effect 가 먼저 실행한다)
+    const prevLoadedLengthRef = useRef(dataProp.length);
+    useEffect(() => {
+        const grew = dataProp.length > prevLoadedLengthRef.current;
+        prevLoadedLengthRef.current = dataProp.length;
+        if (grew) {
+            checkLoadMoreRef.current();
+        }
+    }, [dataProp.length]);
+
+    // 데이터가 비워지면 테이블을 재마운트하여 스크롤을 맨 위로 이동
+    // (필터 결과가 0건일 때는 헤더의 필터 팝오버가 닫히지 않도록 원본 데이터 기준)
+    // 진행 중인 추가/위쪽 로드는 훅이 취소한다.
+    useEffect(() => {
+        if (dataProp.length === 0) {
+            setTableKey((prev) => prev + 1);
+        }
+    }, [dataProp.length]);
+
+    // 하단 추가 로드 행 (불러오는 중이거나 실패했을 때만 virtuoso 마지막 item 으로 붙인다)
+    const showLoadMoreRow = loadMore.canLoadMore && loadMore.status !== "idle";
+    const displayCountRef = useRef(displayLayout.count);
+    displayCountRef.current = displayLayout.count;
+    const virtuosoGroupCounts = useMemo(() => {
+        const groupCounts = displayLayout.groupCounts;
+        if (!groupCounts || !showLoadMoreRow || groupCounts.length === 0) {
+            return groupCounts;
+        }
+        return [
+            ...groupCounts.slice(0, -1),
+            groupCounts[groupCounts.length - 1] + 1,
+        ];
+    }, [displayLayout.groupCounts, showLoadMoreRow]);
+
+    // 이전 데이터를 추적 (그룹 접힘으로 표시 행 수가 바뀌는 것은 제외)
+    const prevProcessedDataRef = useRef(processedData);
+
+    // 데이터가 변경되면(정렬, 필터 등) 스크롤을 맨 위로 이동
+    // 단, 무한 스크롤로 데이터가 뒤에 추가되거나 위쪽 로드로 앞에 붙을 때(길이 증가)는 스크롤 위치 유지
+    // (앞에 붙은 경우의 위치 보정은 firstItemIndex 가 맡는다)
+    // sparse 모드는 범위 로드로 빈 index 가 채워질 뿐이므로 스크롤하지 않는다. (조회 조건이 바뀌면 ref 의 resetScroll 사용)
+    useEffect(() => {
+        const prevData = prevProcessedDataRef.current;
+        const prevLength = prevData.length;
+        const currentLength = processedData.length;
+        prevProcessedDataRef.current = processedData;
+        if (isSparse) {
+            return;
+        }
+
+        // 데이터 길이가 증가한 경우 (무한 스크롤/위쪽 로드) - 스크롤 위치 유지
+        if (currentLength > prevLength && prevLength > 0) {
+            return;
+        }
+
+        // 데이터가 교체된 경우 (정렬, 필터 등) - 스크롤을 맨 위로
+        if (
+            virtuosoRef.current &&
+            currentLength > 0 &&
+            currentLength <= prevLength &&
+            processedData !== prevData
+        ) {
+            virtuosoRef.current.scrollToIndex({
+                index: 0,
+                align: "start",
+                behavior: "auto",
+            });
+        }
+    }, [processedData, isSparse]);
+
+    // 컬럼 너비 (훅이 columnWidths/내부 상태를 관리) — 드래그 중에는 임시 너비를 우선한다.
+    const [resizingColumn, setResizingColumn] = useState<{
+        id: string;
+        width: number;
+    } | null>(null);
+    const setColumnWidthRef = useRef(setColumnWidth);
+    setColumnWidthRef.current = setColumnWidth;
+    const getColumnWidth = useCallback(
+        (col: DataColumn<T>) =>
+            resizingColumn?.id === String(col.id)
+                ? resizingColumn.width
+                : getStoredColumnWidth(col),
+        [resizingColumn, getStoredColumnWidth],
+    );
+    // <colgroup> 으로 전달할 컬럼 너비 목록 (tableLayout: fixed 에서 헤더/바디/푸터 너비를 함께 결정)
+    const columnWidthList = useMemo(
+        () => columns.map((col) => getColumnWidth(col)),
+        [columns, getColumnWidth],
+    );
+
+    // 헤더 리사이즈 핸들 드래그 시작 (document mousemove/mouseup 으로 추적)
+    const resizeCleanupRef = useRef<(() => void) | null>(null);
+    const handleResizeStart = useCallback(
+        (event: React.MouseEvent<HTMLElement>, col: DataColumn<T>) => {
+            event.preventDefault();
+            event.stopPropagation();
+
+            const columnId = String(col.id);
+            const cell = event.currentTarget.closest("th");
+            const startX = event.clientX;
+            const startWidth = cell ? cell.getBoundingClientRect().width : 0;
+            const minWidth = col.minWidth ?? COLUMN_MIN_WIDTH;
+            const maxWidth = col.maxWidth ?? Number.POSITIVE_INFINITY;
+            const prevBodyCursor = document.body.style.cursor;
+            let width = Math.round(startWidth);
+
+            const handleMouseMove = (e: MouseEvent) => {
+                width = Math.round(
+                    Math.min(
+                        maxWidth,
+                        Math.max(minWidth, startWidth + e.clientX - startX),
+                    ),
+                );
+                setResizingColumn({ id: columnId, width });
+            };
+            const handleMouseUp = () => {
+                detach();
+                setResizingColumn(null);
+                setColumnWidthRef.current(columnId, width);
+            };
+
+            // 드래그 도중 언마운트되면 정리할 수 있도록 해제 함수를 ref 에 둔다.
+            const detach = () => {
+                document.removeEventListener("mousemove", handleMouseMove);
+                document.removeEventListener("mouseup", handleMouseUp);
+                document.body.style.cursor = prevBodyCursor;
+                resizeCleanupRef.current = null;
+            };
+
+            resizeCleanupRef.current?.();
+            resizeCleanupRef.current = detach;
+            document.body.style.cursor = "col-resize";
+            document.addEventListener("mousemove", handleMouseMove);
+            document.addEventListener("mouseup", handleMouseUp);
+        },
+        [],
+    );
+    useEffect(() => () => resizeCleanupRef.current?.(), []);
+
+    // 고정 컬럼 오프셋을 헤더 셀 실제 너비로 계산해 컨테이너 CSS 변수로 넣는다.
+    // (% 너비나 리사이즈에도 맞고, 오프셋이 바뀌어도 행을 재렌더하지 않는다)
+    useEffect(() => {
+        const root = tableRootRef.current;
+        const scroller = scrollerElRef.current;
+        const { leftIds, rightIds } = pinnedLayout;
+        if (!root || !scroller || (!leftIds.length && !rightIds.length)) {
+            return;
+        }
+
+        const update = () => {
+            const head = scroller.querySelector("thead");
+            if (!head) {
+                return;
+            }
+            const widthOf = (id: string) =>
+                head
+                    .querySelector(
+                        `th[data-column-id="${escapeAttributeValue(id)}"]`,
+                    )
+                    ?.getBoundingClientRect().width ?? 0;
+            let offset = 0;
+            leftIds.forEach((id, index) => {
+                root.style.setProperty(
+                    `--vdt-pin-left-${index}`,
+                    `${offset}px`,
+                );
+                offset += widthOf(id);
+            });
+            offset = 0;
+            [...rightIds].reverse().forEach((id, index) => {
+                root.style.setProperty(
+                    `--vdt-pin-right-${index}`,
+                    `${offset}px`,
+                );
+                offset += widthOf(id);
+            });
+            updatePinnedShadows();
+        };
+
+        update();
+        const table = scroller.querySelector("table");
+        if (!table || typeof ResizeObserver === "undefined") {
+            return;
+        }
+        const observer = new ResizeObserver(update);
+        observer.observe(table);
+        return () => observer.disconnect();
+    }, [pinnedLayout, columnWidthList, tableKey, updatePinnedShadows]);
+
+    // 헤더 드래그 컬럼 순서 변경
+    const [columnDropIndicator, setColumnDropIndicator] = useState<{
+        left: number;
+        top: number;
+        height: number;
+    } | null>(null);
+    const orderedColumnsRef = useRef(orderedColumns);
+    orderedColumnsRef.current = orderedColumns;
+    const setColumnOrderRef = useRef(setColumnOrder);
+    setColumnOrderRef.current = setColumnOrder;
+
+    // 헤더 셀 mousedown 에서 드래그를 준비한다. 임계값(ROW_CLICK_DRAG_THRESHOLD_PX) 이상 움직여야
+    // 드래그로 전환되고, 컬럼·그룹 헤더는 같은 상위 그룹(parentPath) 안에서만 옮길 수 있다.
+    // (그룹 헤더는 그룹 전체를, 다른 그룹 위에 놓으면 그 그룹 전체를 기준으로 앞/뒤에 놓는다)
+    const handleHeaderDragStart = useCallback(
+        (
+            event: React.MouseEvent<HTMLElement>,
+            source: { columnIds: string[]; parentPath: string[] },
+        ) => {
+            if (event.button !== 0) {
+                return;
+            }
+
+            const startX = event.clientX;
+            const startY = event.clientY;
+            const prevBodyCursor = document.body.style.cursor;
+            let dragging = false;
+            let drop: { targetIds: string[]; placeAfter: boolean } | null =
+                null;
+
+            const findDropTarget = (e: MouseEvent) => {
+                const scroller = scrollerElRef.current;
+                const root = tableRootRef.current;
+                const head = scroller?.querySelector("thead");
+                const cell = (
+                    document.elementFromPoint(
+                        e.clientX,
+                        e.clientY,
+                    ) as HTMLElement | null
+                )?.closest("th");
+                if (!scroller || !root || !head || !cell) {
+                    return null;
+                }
+                if (!head.contains(cell)) {
+                    return null;
+                }
+
+                // 셀이 가리키는 컬럼 (그룹 헤더면 첫 컬럼) 의 그룹 경로로 대상을 정한다.
+                const cols = orderedColumnsRef.current;
+                const cellColumnId =
+                    cell.getAttribute("data-column-id") ??
+                    cell.getAttribute("data-group-column-id");
+                const cellColumn = cols.find(
+                    (col) => String(col.id) === cellColumnId,
+                );
+                if (!cellColumn) {
+                    return null;
+                }
+                const cellPath = getColumnGroupPath(cellColumn);
+                const depth = source.parentPath.length;
+                if (!hasGroupPathPrefix(cellPath, source.parentPath)) {
+                    return null;
+                }
+
+                let targetIds: string[];
+                if (cellPath.length > depth) {
+                    // 같은 상위 그룹 안의 다른 하위 그룹 — 그 그룹 전체가 대상
+                    const targetPath = cellPath.slice(0, depth + 1);
+                    targetIds = cols
+                        .filter((col) =>
+                            hasGroupPathPrefix(
+                                getColumnGroupPath(col),
+                                targetPath,
+                            ),
+                        )
+                        .map((col) => String(col.id));
+                } else {
+                    targetIds = [String(cellColumn.id)];
+                }
+                if (
+                    targetIds.length === 0 ||
+                    targetIds.some((id) => source.columnIds.includes(id))
+                ) {
+                    return null;
+                }
+
+                // 대상 블록(헤더 셀 합집합) 가운데를 기준으로 앞/뒤를 정한다.
+                let left = Number.POSITIVE_INFINITY;
+                let right = Number.NEGATIVE_INFINITY;
+                targetIds.forEach((id) => {
+                    const th = head.querySelector(
+                        `th[data-column-id="${escapeAttributeValue(id)}"]`,
+                    );
+                    if (th) {
+                        const rect = th.getBoundingClientRect();
+                        left = Math.min(left, rect.left);
+                        right = Math.max(right, rect.right);
+                    }
+                });
+                if (!Number.isFinite(left)) {
+                    return null;
+                }
+                const placeAfter = e.clientX > (left + right) / 2;
+                const rootRect = root.getBoundingClientRect();
+                const headRect = head.getBoundingClientRect();
+                return {
+                    targetIds,
+                    placeAfter,
+                    indicator: {
+                        left: (placeAfter ? right : left) - rootRect.left,
+                        top: headRect.top - rootRect.top,
+                        height: headRect.height,
+                    },
+                };
+            };
+
+            const handleMouseMove = (e: MouseEvent) => {
+                if (!dragging) {
+                    const dx = e.clientX - startX;
+                    const dy = e.clientY - startY;
+                    if (
+                        Math.sqrt(dx * dx + dy * dy) <=
+                        ROW_CLICK_DRAG_THRESHOLD_PX
+                    ) {
+                        return;
+                    }
+                    dragging = true;
+                    document.body.style.cursor = "grabbing";
+                }
+                const target = findDropTarget(e);
+                drop = target
+                    ? {
+                          targetIds: target.targetIds,
+                          placeAfter: target.placeAfter,
+                      }
+                    : null;
+                setColumnDropIndicator(target ? target.indicator : null);
+            };
+            const handleMouseUp = () => {
+                document.removeEventListener("mousemove", handleMouseMove);
+                document.removeEventListener("mouseup", handleMouseUp);
+                if (!dragging) {
+                    return;
+                }
+                document.body.style.cursor = prevBodyCursor;
+                setColumnDropIndicator(null);
+                if (!drop) {
+                    return;
+                }
+
+                const ids = orderedColumnsRef.current.map((col) =>
+                    String(col.id),
+                );
+                const nextIds = moveColumnIds(
+                    ids,
+                    source.columnIds,
+                    drop.targetIds,
+                    drop.placeAfter,
+                );
+                if (nextIds.every((id, index) => id === ids[index])) {
+                    return;
+                }
+                setColumnOrderRef.current(nextIds);
+            };
+
+            document.addEventListener("mousemove", handleMouseMove);
+            document.addEventListener("mouseup", handleMouseUp);
+        },
+        [],
+    );
+
+    /**
+     * 테이블 고정 헤더 컨텐츠 정의 (기존 VirtualDataTable 스타일)
+     * 정렬 기능이 포함된 컬럼 헤더를 렌더링
+     */
+    // 헤더 줄별 셀과 헤더 줄 수 (그룹 경로 깊이 + 1) — aria-rowindex 는 헤더 줄부터 센다.
+    const headerRows = useMemo(
+        () =>
+            addHeaderColumns(
+                dataHeaderRows,
+                utilityColumns.leading,
+                utilityColumns.trailing,
+            ),
+        [dataHeaderRows, utilityColumns],
+    );
+    const headerRowCount = headerRows.length;
+
+    const fixedHeaderContent = useCallback(() => {
+        // 컬럼 헤더 셀 (정렬 라벨 + 리사이즈 핸들)
+        const renderHeaderCell = (col: DataColumn<T>, rowSpan?: number) => {
+            const width = getColumnWidth(col);
+            const isResizable = col.resizable ?? resizableColumns;
+            const isReorderable = col.reorderable ?? reorderableColumns;
+            const pinned = getPinnedCellProps([col], 3);
+            const sortIndex = currentSortModel.findIndex(
+                (item) => item.columnId === String(col.id),
+            );
+            const sortItem =
+                sortIndex >= 0 ? currentSortModel[sortIndex] : undefined;
+            const isGroupedColumn = getColumnGroupPath(col).length > 0;
+
+            return (
                 <TableCell
                     key={String(col.id)}
-                    rowSpan={2}
+                    data-column-id={String(col.id)}
+                    className={[
+                        pinned?.className,
+                        virtualDataTableClasses.headerCell,
+                    ]
+                        .filter(Boolean)
+                        .join(" ")}
+                    rowSpan={rowSpan}
+                    // 다중 정렬이면 1순위 컬럼에만 aria-sort 를 둔다.
+                    aria-sort={
+                        sortIndex === 0
+                            ? sortItem?.direction === "asc"
+                                ? "ascending"
+                                : "descending"
+                            : undefined
+                    }
+                    onMouseDown={(e) => {
+                        // 정렬 클릭과 드래그를 구분하기 위해 시작 위치를 기록한다 (행 클릭과 같은 기준).
+                        isScrollDraggingRef.current = false;
+                        mouseDownPositionRef.current = {
+                            x: e.clientX,
+                            y: e.clientY,
+                        };
+                        if (isReorderable) {
+                            handleHeaderDragStart(e, {
+                                columnIds: [String(col.id)],
+                                parentPath: getColumnGroupPath(col),
+                            });
+                        }
+                    }}
                     align={col.align || "left"}
                     style={{
-                        width: col.width,
-                        minWidth: col.width,
+                        width,
+                        minWidth: width,
                         ...col.style,
                         fontWeight: "bold",
                         position: "sticky",
                         top: 0,
                         zIndex: 2,
                         padding: "16px",
+                        // 필터 버튼 자리
+                        ...(col.filter && { paddingRight: "36px" }),
+                        ...pinned?.style,
                     }}
                 >
-                    {col.sortable && onSort ? (
+                    {col.sortable ? (
                         <div
                             style={{
                                 display: "flex",
@@ -739,21 +2887,34 @@ function VirtualDataTableComponent<T>({
                                     "&:hover .MuiTableSortLabel-root": {
                                         opacity: "1 !important",
                                         "& .MuiSvgIcon-root": {
-                                            color: "#000",
+                                            color: "text.primary",
                                             opacity: "1 !important",
                                         },
                                     },
                                 }}
-                                onClick={() => handleSort(String(col.id))}
+                                onClick={(e) => {
+                                    // 헤더를 드래그(순서 변경)한 경우 정렬 클릭으로 처리하지 않는다.
+                                    const dx =
+                                        e.clientX -
+                                        mouseDownPositionRef.current.x;
+                                    const dy =
+                                        e.clientY -
+                                        mouseDownPositionRef.current.y;
+                                    const wasDrag =
+                                        Math.sqrt(dx * dx + dy * dy) >
+                                            ROW_CLICK_DRAG_THRESHOLD_PX ||
+                                        isScrollDraggingRef.current;
+                                    isScrollDraggingRef.current = false;
+                                    if (wasDrag) {
+                                        return;
+                                    }
+                                    handleSort(String(col.id), e.shiftKey);
+                                }}
                             >
                                 {col.text}
                                 <TableSortLabel
-                                    active={sortBy === col.id}
-                                    direction={
-                                        sortBy === col.id
-                                            ? sortDirection
-                                            : "desc"
-                                    }
+                                    active={!!sortItem}
+                                    direction={sortItem?.direction ?? "desc"}
                                     sx={{
                                         position: "absolute",
                                         left: "100%",
@@ -764,15 +2925,17 @@ function VirtualDataTableComponent<T>({
                                         width: "16px",
                                         height: "16px",
                                         cursor: "default",
-                                        opacity: sortBy === col.id ? 1 : 0,
+                                        opacity: sortItem ? 1 : 0,
                                         transition: "opacity 0.2s ease",
-                                        "&:hover": {
-                                            opacity: "1 !important",
-                                            "& .MuiSvgIcon-root": {
-                                                color: "#000",
+                                        ...(headerRowCount > 1 && {
+                                            "&:hover": {
                                                 opacity: "1 !important",
+                                                "& .MuiSvgIcon-root": {
+                                                    color: "text.primary",
+                                                    opacity: "1 !important",
+                                                },
                                             },
-                                        },
+                                        }),
                                         "& .MuiTableSortLabel-icon": {
                                             position: "relative",
                                             marginLeft: 0,
@@ -780,148 +2943,175 @@ function VirtualDataTableComponent<T>({
                                             opacity: 1,
                                             transition: "color 0.2s ease",
                                         },
+                                        // 그룹 하위 컬럼 헤더는 기존 아이콘 방향을 유지한다.
                                         "& .MuiTableSortLabel-iconDirectionAsc":
                                             {
-                                                transform: "rotate(180deg)",
+                                                transform: isGroupedColumn
+                                                    ? "rotate(0deg)"
+                                                    : "rotate(180deg)",
                                             },
                                         "& .MuiTableSortLabel-iconDirectionDesc":
                                             {
-                                                transform: "rotate(0deg)",
+                                                transform: isGroupedColumn
+                                                    ? "rotate(180deg)"
+                                                    : "rotate(0deg)",
                                             },
                                     }}
                                 />
-                            </Box>
-                        </div>
-                    ) : (
-                        col.text
-                    )}
-                </TableCell>
-            )),
-            ...Object.entries(groupMap).map(([group, cols]) => (
-                <TableCell
-                    key={group}
-                    align="center"
-                    colSpan={cols.length}
-                    style={{
-                        fontWeight: "bold",
-                        position: "sticky",
-                        top: 0,
-                        zIndex: 2,
-                        padding: "16px",
-                    }}
-                >
-                    {group}
-                </TableCell>
-            )),
-        ];
-
-        const secondRowCells = [
-            ...Object.values(groupMap)
-                .flat()
-                .map((col) => (
-                    <TableCell
-                        key={String(col.id)}
-                        align={col.align || "left"}
-                        style={{
-                            width: col.width,
-                            minWidth: col.width,
-                            ...col.style,
-                            fontWeight: "bold",
-                            position: "sticky",
-                            top: 0,
-                            zIndex: 2,
-                            padding: "16px",
-                        }}
-                    >
-                        {col.sortable && onSort ? (
-                            <div
-                                style={{
-                                    display: "flex",
-                                    alignItems: "center",
-                                    justifyContent:
-                                        col.align === "center"
-                                            ? "center"
-                                            : col.align === "right"
-                                              ? "flex-end"
-                                              : "flex-start",
-                                    position: "relative",
-                                    width: "100%",
-                                }}
-                            >
-                                <Box
-                                    sx={{
-                                        position: "relative",
-                                        cursor: "default",
-                                        "&:hover .MuiTableSortLabel-root": {
-                                            opacity: "1 !important",
-                                            "& .MuiSvgIcon-root": {
-                                                color: "#000",
-                                                opacity: "1 !important",
-                                            },
-                                        },
-                                    }}
-                                    onClick={() => handleSort(String(col.id))}
-                                >
-                                    {col.text}
-                                    <TableSortLabel
-                                        active={sortBy === col.id}
-                                        direction={
-                                            sortBy === col.id
-                                                ? sortDirection
-                                                : "desc"
-                                        }
+                                {/* 다중 정렬 우선순위 */}
+                                {sortItem && currentSortModel.length > 1 && (
+                                    <Box
+                                        component="span"
                                         sx={{
                                             position: "absolute",
                                             left: "100%",
-                                            top: "50%",
-                                            transform: "translateY(-50%)",
-                                            marginLeft: "4px",
-                                            minWidth: "auto",
-                                            width: "16px",
-                                            height: "16px",
-                                            cursor: "default",
-                                            opacity: sortBy === col.id ? 1 : 0,
-                                            transition: "opacity 0.2s ease",
-                                            "&:hover": {
-                                                opacity: "1 !important",
-                                                "& .MuiSvgIcon-root": {
-                                                    color: "#000",
-                                                    opacity: "1 !important",
-                                                },
-                                            },
-                                            "& .MuiTableSortLabel-icon": {
-                                                position: "relative",
-                                                marginLeft: 0,
-                                                marginRight: 0,
-                                                opacity: 1,
-                                                transition: "color 0.2s ease",
-                                            },
-                                            "& .MuiTableSortLabel-iconDirectionAsc":
-                                                {
-                                                    transform: "rotate(0deg)",
-                                                },
-                                            "& .MuiTableSortLabel-iconDirectionDesc":
-                                                {
-                                                    transform: "rotate(180deg)",
-                                                },
-                                        }}
-                                    />
-                                </Box>
-                            </div>
-                        ) : (
-                            col.text
-                        )}
-                    </TableCell>
-                )),
-        ];
+                                            top: "50%",
+                                            transform: "translateY(-50%)",
+                                            marginLeft: "22px",
+                                            fontSize: "0.7rem",
+                                            lineHeight: 1,
+                                            color: "text.secondary",
+                                        }}
+                                    >
+                                        {sortIndex + 1}
+                                    </Box>
+                                )}
+                            </Box>
+                        </div>
+                    ) : (
+                        col.text
+                    )}
+                    {col.filter && (
+                        <ColumnFilterButton
+                            filter={col.filter}
+                            value={currentFilterModel[String(col.id)]}
+                            onChange={(value) =>
+                                handleFilterChange(String(col.id), value)
+                            }
+                            localeText={localeText}
+                        />
+                    )}
+                    {isResizable && (
+                        <Box
+                            aria-hidden
+                            onMouseDown={(e) => handleResizeStart(e, col)}
+                            onClick={(e) => e.stopPropagation()}
+                            sx={{
+                                position: "absolute",
+                                top: 0,
+                                right: 0,
+                                bottom: 0,
+                                width: "8px",
+                                cursor: "col-resize",
+                                zIndex: 1,
+                                "&::after": {
+                                    content: '""',
+                                    position: "absolute",
+                                    top: "25%",
+                                    bottom: "25%",
+                                    right: "3px",
+                                    width: "2px",
+                                    backgroundColor: (theme) =>
+                                        theme.palette.divider,
+                                    opacity:
+                                        resizingColumn?.id === String(col.id)
+                                            ? 1
+                                            : 0,
+                                    transition: "opacity 0.2s ease",
+                                },
+                                "&:hover::after": {
+                                    opacity: 1,
+                                },
+                            }}
+                        />
+                    )}
+                </TableCell>
+            );
+        };
+
+        // 그룹 헤더 셀 — 묶인 컬럼 수만큼 colSpan
+        const renderGroupCell = ({
+            group,
+            path,
+            columns: run,
+            startIndex,
+        }: HeaderGroup<T>) => {
+            const pinned = getPinnedCellProps(run, 3);
+
+            return (
+                <TableCell
+                    key={`${path.join("/")}-${startIndex}`}
+                    data-column-group={group}
+                    data-group-column-id={String(run[0].id)}
+                    className={[
+                        pinned?.className,
+                        virtualDataTableClasses.headerCell,
+                    ]
+                        .filter(Boolean)
+                        .join(" ")}
+                    align="center"
+                    colSpan={run.length}
+                    onMouseDown={
+                        reorderableColumns &&
+                        run.every((runCol) => runCol.reorderable !== false)
+                            ? (e) =>
+                                  handleHeaderDragStart(e, {
+                                      columnIds: run.map((runCol) =>
+                                          String(runCol.id),
+                                      ),
+                                      parentPath: path.slice(0, -1),
+                                  })
+                            : undefined
+                    }
+                    style={{
+                        fontWeight: "bold",
+                        position: "sticky",
+                        top: 0,
+                        zIndex: 2,
+                        padding: "16px",
+                        ...pinned?.style,
+                    }}
+                >
+                    {group}
+                </TableCell>
+            );
+        };
 
+        // 헤더 줄마다 바디와 같은 컬럼 순서로 셀을 놓는다.
+        // 컬럼 헤더는 그룹 아래 남은 줄을 모두 차지(rowSpan)하고, 그룹 헤더는 한 줄씩 차지한다.
         return (
             <>
-                <MuiTableRow>{firstRowCells}</MuiTableRow>
-                <MuiTableRow>{secondRowCells}</MuiTableRow>
+                {headerRows.map((cells, level) => (
+                    <MuiTableRow key={level} aria-rowindex={level + 1}>
+                        {cells.map((cell) =>
+                            cell.group === undefined
+                                ? renderHeaderCell(
+                                      cell.columns[0],
+                                      cell.rowSpan > 1
+                                          ? cell.rowSpan
+                                          : undefined,
+                                  )
+                                : renderGroupCell(cell),
+                        )}
+                    </MuiTableRow>
+                ))}
             </>
         );
-    }, [columns, sortBy, sortDirection, handleSort, onSort, columnHeight]);
+    }, [
+        headerRows,
+        currentSortModel,
+        handleSort,
+        currentFilterModel,
+        handleFilterChange,
+        getColumnWidth,
+        resizableColumns,
+        resizingColumn,
+        handleResizeStart,
+        reorderableColumns,
+        handleHeaderDragStart,
+        getPinnedCellProps,
+        localeText,
+    ]);
 
     /**
      * 테이블 행 컨텐츠 렌더링 함수 (기존 VirtualDataTable 스타일)
@@ -945,11 +3135,77 @@ function VirtualDataTableComponent<T>({
                 return null;
             }
 
-            const cells = columns.map((column) => {
+            // 저장 중(낙관적) 값이 있으면 그 값으로 바꾼 행으로 렌더링한다.
+            const rowId =
+                editingCell ||
+                Object.keys(pendingCellValues).length > 0 ||
+                Object.keys(cellErrors).length > 0
+                    ? resolveRowId(item, index)
+                    : undefined;
+            let displayItem = item;
+            if (rowId !== undefined) {
+                columns.forEach((column) => {
+                    const pending =
+                        pendingCellValues[getCellKey(rowId, String(column.id))];
+                    if (pending) {
+                        displayItem = {
+                            ...displayItem,
+                            [pending.columnId]: pending.value,
+                        };
+                    }
+                });
+            }
+
+            const isRowInCellRange =
+                !!cellRangeBounds &&
+                index >= cellRangeBounds.top &&
+                index <= cellRangeBounds.bottom;
+
+            const cells = columns.map((column, columnIndex) => {
                 const cellStart = perfDebugEnabled ? performance.now() : 0;
-                const cellValue = column.render
-                    ? column.render(item, index)
-                    : String((item as any)[column.id] || "");
+                const columnId = String(column.id);
+                const isSelectableCell =
+                    cellSelection && !isUtilityColumnId(columnId);
+                const isCellSelected =
+                    isRowInCellRange &&
+                    isSelectableCell &&
+                    columnIndex >= cellRangeBounds.left &&
+                    columnIndex <= cellRangeBounds.right;
+                const isEditing =
+                    rowId !== undefined &&
+                    editingCell?.rowId === rowId &&
+                    editingCell.columnId === columnId;
+                const cellError =
+                    rowId !== undefined
+                        ? cellErrors[getCellKey(rowId, columnId)]
+                        : undefined;
+                const cellValue = isEditing ? (
+                    <CellEditor
+                        column={column}
+                        item={displayItem}
+                        index={index}
+                        rowId={rowId}
+                        onCommit={(value, moveNext) =>
+                            commitCellEdit(
+                                item,
+                                index,
+                                columnId,
+                                value,
+                                moveNext,
+                            )
+                        }
+                        onCancel={finishCellEdit}
+                        localeText={localeText}
+                    />
+                ) : column.render ? (
+                    column.render(displayItem, index)
+                ) : (
+                    String((displayItem as any)[column.id] || "")
+                );
+                const treeRow =
+                    tree && columnId === String(treeColumnId)
+                        ? tree.rows[index]
+                        : undefined;
 
                 if (perfDebugEnabled) {
                     const cellDuration = performance.now() - cellStart;
@@ -961,18 +3217,90 @@ function VirtualDataTableComponent<T>({
                     );
                 }
 
+                const pinned = getPinnedCellProps([column], 1);
+
+                const className = [
+                    pinned?.className,
+                    virtualDataTableClasses.cell,
+                    cellError ? "vdt-cell-error" : undefined,
+                    isCellSelected ? "vdt-cell-selected" : undefined,
+                ]
+                    .filter(Boolean)
+                    .join(" ");
+
                 return (
                     <TableCell
-                        key={String(column.id)}
+                        key={columnId}
+                        data-column-id={columnId}
+                        className={className || undefined}
                         align={column.align || "left"}
+                        data-column-index={
+                            isSelectableCell ? columnIndex : undefined
+                        }
+                        aria-selected={
+                            isSelectableCell ? isCellSelected : undefined
+                        }
+                        onMouseDown={
+                            isSelectableCell
+                                ? (e: React.MouseEvent) =>
+                                      startCellSelectionRef.current(
+                                          index,
+                                          columnIndex,
+                                          e,
+                                      )
+                                : undefined
+                        }
+                        onDoubleClick={
+                            column.editable
+                                ? () =>
+                                      startCellEditRef.current(index, columnId)
+                                : undefined
+                        }
                         style={{
                             width: column.width,
                             minWidth: column.width,
                             ...column.style,
                             padding: "8px 16px",
+                            ...pinned?.style,
                         }}
                     >
-                        {cellValue}
+                        {treeRow ? (
+                            <TreeCellContent
+                                treeRow={treeRow}
+                                indent={treeIndent}
+                                localeText={localeText}
+                                onToggle={() => tree?.toggleRow(index)}
+                            >
+                                {cellValue}
+                            </TreeCellContent>
+                        ) : (
+                            cellValue
+                        )}
+                        {/* 저장 실패 메시지 (셀 안 오른쪽 아래, 다시 저장하면 사라진다) */}
+                        {cellError && !isEditing && (
+                            <Box
+                                role="alert"
+                                title={cellError}
+                                sx={{
+                                    position: "absolute",
+                                    right: 4,
+                                    bottom: 2,
+                                    maxWidth: "calc(100% - 8px)",
+                                    padding: "0 4px",
+                                    borderRadius: 1,
+                                    overflow: "hidden",
+                                    textOverflow: "ellipsis",
+                                    whiteSpace: "nowrap",
+                                    fontSize: "0.7rem",
+                                    lineHeight: 1.5,
+                                    color: "error.contrastText",
+                                    backgroundColor: "error.main",
+                                    pointerEvents: "none",
+                                }}
+                            >
+                                {cellError}
+                            </Box>
+                        )}
                     </TableCell>
                 );
             });
@@ -989,13 +3317,282 @@ function VirtualDataTableComponent<T>({
 
             return <>{cells}</>;
         },
-        [columns, perfDebugEnabled],
+        [
+            columns,
+            perfDebugEnabled,
+            getPinnedCellProps,
+            editingCell,
+            pendingCellValues,
+            cellErrors,
+            resolveRowId,
+            commitCellEdit,
+            finishCellEdit,
+            cellSelection,
+            cellRangeBounds,
+            tree,
+            treeColumnId,
+            treeIndent,
+            localeText,
+        ],
+    );
+
+    // sparse 모드에서 아직 불러오지 않은 행의 셀 (모든 placeholder 행이 같은 셀을 쓴다)
+    const placeholderCells = useMemo(
+        () =>
+            columns.map((column) => {
+                const columnId = String(column.id);
+                const pinned = getPinnedCellProps([column], 1);
+                const isUtilityColumn = isUtilityColumnId(columnId);
+                return (
+                    <TableCell
+                        key={columnId}
+                        className={[
+                            pinned?.className,
+                            virtualDataTableClasses.cell,
+                        ]
+                            .filter(Boolean)
+                            .join(" ")}
+                        align={column.align || "left"}
+                        style={{
+                            width: column.width,
+                            minWidth: column.width,
+                            ...column.style,
+                            padding: "8px 16px",
+                            ...pinned?.style,
+                        }}
+                    >
+                        {isUtilityColumn ? null : <Skeleton variant="text" />}
+                    </TableCell>
+                );
+            }),
+        [columns, getPinnedCellProps],
+    );
+
+    // 하단 추가 로드 행 — 불러오는 중 표시 또는 오류 메시지와 재시도 버튼
+    // (가로 스크롤해도 보이도록 내용을 왼쪽에 고정한다)
+    const loadMoreRowContent = useMemo(() => {
+        if (!showLoadMoreRow) {
+            return null;
+        }
+        const errorMessage = getLoadErrorMessage(
+            loadMore.error,
+            DEFAULT_LOCALE_TEXT.loadMoreError,
+            localeText.loadMoreError,
+        );
+        return (
+            <TableCell
+                colSpan={columns.length}
+                style={{ padding: "8px 16px", height: rowHeight }}
+            >
+                {loadMore.status === "error" ? (
+                    <Box
+                        role="alert"
+                        sx={{
+                            position: "sticky",
+                            left: 16,
+                            display: "inline-flex",
+                            alignItems: "center",
+                            gap: 1.5,
+                        }}
+                    >
+                        <Typography variant="body2" color="error">
+                            {errorMessage}
+                        </Typography>
+                        <Button
+                            size="small"
+                            onClick={(e) => {
+                                e.stopPropagation();
+                                loadMore.request();
+                            }}
+                        >
+                            {localeText.retry}
+                        </Button>
+                    </Box>
+                ) : (
+                    <Box
+                        role="status"
+                        sx={{
+                            position: "sticky",
+                            left: 16,
+                            display: "inline-flex",
+                            alignItems: "center",
+                            gap: 1.5,
+                            color: "text.secondary",
+                        }}
+                    >
+                        <CssSpinner size={18} label={localeText.loading} />
+                        <Typography variant="body2">
+                            {localeText.loadingMore}
+                        </Typography>
+                    </Box>
+                )}
+            </TableCell>
+        );
+    }, [showLoadMoreRow, loadMore, columns.length, rowHeight, localeText]);
+
+    /**
+     * virtuoso item 렌더링 (item index 는 그룹 행을 세지 않는다)
+     * 상세 행이면 전체 컬럼을 병합한 셀에 상세 패널을, 아니면 data index 로 행 셀을 렌더링한다.
+     */
+    const displayItemContent = useCallback(
+        (virtuosoIndex: number) => {
+            const displayIndex = virtuosoIndex - firstItemIndex;
+            if (displayIndex >= displayLayout.count) {
+                return loadMoreRowContent;
+            }
+            const displayRow = displayLayout.rows?.[displayIndex];
+            const rowIndex = displayRow ? displayRow.index : displayIndex;
+            const item = data[rowIndex];
+            if (item === undefined && rowIndex < rowCount) {
+                return <>{placeholderCells}</>;
+            }
+            if (!displayRow?.detail) {
+                return rowContent(rowIndex, item);
+            }
+            return (
+                <TableCell colSpan={columns.length} style={{ padding: 0 }}>
+                    {renderDetailPanel?.(item, displayRow.index)}
+                </TableCell>
+            );
+        },
+        [
+            displayLayout,
+            rowContent,
+            data,
+            rowCount,
+            placeholderCells,
+            loadMoreRowContent,
+            firstItemIndex,
+            columns.length,
+            renderDetailPanel,
+        ],
+    );
+
+    /**
+     * 그룹 행 컨텐츠 렌더링 함수
+     * 첫 집계 컬럼 앞까지 병합한 셀에 그룹 값과 행 수를, 나머지 셀에 컬럼 집계(aggregate)를 표시한다.
+     */
+    const groupContent = useCallback(
+        (groupIndex: number) => {
+            const group = rowGroups?.[groupIndex];
+            if (!group || columns.length === 0) {
+                return null;
+            }
+            const collapsed = collapsedGroupSet.has(group.key);
+            const label = groupByIds
+                .map((columnId, level) => {
+                    const column = columnsProp.find(
+                        (col) => String(col.id) === columnId,
+                    );
+                    const title =
+                        typeof column?.text === "string"
+                            ? column.text
+                            : columnId;
+                    return `${title}: ${formatGroupValue(group.values[level])}`;
+                })
+                .join(" / ");
+
+            // 라벨 셀 병합은 고정 영역 경계(왼쪽 고정/일반/오른쪽 고정)를 넘지 않도록 자른다.
+            const firstAggregateIndex = columns.findIndex(
+                (col, i) => i > 0 && col.aggregate,
+            );
+            const requestedSpan =
+                firstAggregateIndex > 0 ? firstAggregateIndex : columns.length;
+            let labelSpan = 1;
+            while (
+                labelSpan < requestedSpan &&
+                columns[labelSpan].pinned === columns[0].pinned
+            ) {
+                labelSpan += 1;
+            }
+            const labelPinned = getPinnedCellProps(
+                columns.slice(0, labelSpan),
+                1,
+            );
+
+            const cells: React.ReactNode[] = [
+                <TableCell
+                    key="__group_label__"
+                    className={labelPinned?.className}
+                    colSpan={labelSpan > 1 ? labelSpan : undefined}
+                    aria-expanded={!collapsed}
+                    style={{
+                        fontWeight: "bold",
+                        whiteSpace: "nowrap",
+                        overflow: "hidden",
+                        textOverflow: "ellipsis",
+                        ...labelPinned?.style,
+                    }}
+                >
+                    <Box
+                        component="span"
+                        aria-hidden
+                        sx={{
+                            display: "inline-block",
+                            width: "1em",
+                            marginRight: "4px",
+                            transition: "transform 0.2s ease",
+                            transform: collapsed ? "none" : "rotate(90deg)",
+                        }}
+                    >
+                        ▸
+                    </Box>
+                    {label}
+                    <Box
+                        component="span"
+                        sx={{
+                            marginLeft: "8px",
+                            fontWeight: "normal",
+                            color: "text.secondary",
+                        }}
+                    >
+                        ({group.rows.length})
+                    </Box>
+                </TableCell>,
+            ];
+            for (let i = labelSpan; i < columns.length; i += 1) {
+                const col = columns[i];
+                const pinned = getPinnedCellProps([col], 1);
+                cells.push(
+                    <TableCell
+                        key={String(col.id)}
+                        className={pinned?.className}
+                        align={col.align || "left"}
+                        style={{
+                            ...col.style,
+                            fontWeight: "bold",
+                            ...pinned?.style,
+                        }}
+                    >
+                        {renderGroupAggregate(col, group.rows)}
+                    </TableCell>,
+                );
+            }
+            return <>{cells}</>;
+        },
+        [
+            rowGroups,
+            collapsedGroupSet,
+            groupByIds,
+            columnsProp,
+            columns,
+            getPinnedCellProps,
+        ],
     );
 
     // 컬럼에 footer 렌더러가 하나라도 있거나 showFooter 가 명시되면 하단 합계 행을 표시한다.
     const hasFooter =
         showFooter ?? columns.some((col) => typeof col.footer === "function");
 
+    // 전체 행 수 (aria-rowcount) — 헤더 줄 + 그룹/상세 행을 포함한 표시 행 + 아직 불러오지 않은 행(무한 스크롤) + 합계 행
+    // 가상화로 일부 행만 렌더링되므로 스크린 리더가 전체 중 위치를 알 수 있게 한다.
+    const ariaRowCount =
+        headerRowCount +
+        displayLayout.count +
+        (rowGroups?.length ?? 0) +
+        (onLoadMore ? Math.max(0, totalCount - rowCount) : 0) +
+        (hasFooter ? 1 : 0);
+
     /**
      * 테이블 하단 고정 합계 행(tfoot) 컨텐츠 정의
      * 각 컬럼의 footer(data) 결과를 셀로 렌더링한다. (footer 없는 컬럼은 빈 셀)
@@ -1007,17 +3604,41 @@ function VirtualDataTableComponent<T>({
         }
 
         // footerColSpan 으로 셀을 병합한다. 앞 컬럼이 colSpan 으로 덮은 컬럼은 셀을 생략한다.
+        // 덮을 컬럼은 숨긴 컬럼을 포함한 컬럼 순서로 정하고, 그중 표시 중인 컬럼만큼만 병합한다.
+        // 병합은 고정 영역 경계(왼쪽 고정/일반/오른쪽 고정)를 넘지 않도록 자른다.
+        const footerSpanIds = new Map<string, Set<string>>();
+        orderedColumns.forEach((col, index) => {
+            if (col.footerColSpan && col.footerColSpan > 1) {
+                footerSpanIds.set(
+                    String(col.id),
+                    new Set(
+                        orderedColumns
+                            .slice(index, index + col.footerColSpan)
+                            .map((spanCol) => String(spanCol.id)),
+                    ),
+                );
+            }
+        });
         const cells: React.ReactNode[] = [];
         for (let i = 0; i < columns.length; i += 1) {
             const col = columns[i];
-            const colSpan =
-                col.footerColSpan && col.footerColSpan > 1
-                    ? Math.min(col.footerColSpan, columns.length - i)
-                    : 1;
+            const spanIds = footerSpanIds.get(String(col.id));
+            let colSpan = 1;
+            while (
+                spanIds &&
+                i + colSpan < columns.length &&
+                spanIds.has(String(columns[i + colSpan].id)) &&
+                columns[i + colSpan].pinned === col.pinned
+            ) {
+                colSpan += 1;
+            }
+            const pinned = getPinnedCellProps(columns.slice(i, i + colSpan), 1);
 
             cells.push(
                 <TableCell
                     key={String(col.id)}
+                    data-column-id={String(col.id)}
+                    className={pinned?.className}
                     align={col.align || "left"}
                     colSpan={colSpan > 1 ? colSpan : undefined}
                     style={{
@@ -1028,9 +3649,10 @@ function VirtualDataTableComponent<T>({
                         ...col.style,
                         fontWeight: "bold",
                         padding: "16px",
+                        ...pinned?.style,
                     }}
                 >
-                    {col.footer ? col.footer(data) : null}
+                    {col.footer ? col.footer(processedData) : null}
                 </TableCell>,
             );
 
@@ -1038,18 +3660,51 @@ function VirtualDataTableComponent<T>({
             i += colSpan - 1;
         }
 
-        return <MuiTableRow>{cells}</MuiTableRow>;
-    }, [hasFooter, columns, data]);
+        return <MuiTableRow aria-rowindex={ariaRowCount}>{cells}</MuiTableRow>;
+    }, [
+        hasFooter,
+        columns,
+        orderedColumns,
+        processedData,
+        getPinnedCellProps,
+        ariaRowCount,
+    ]);
+
+    // grid 속성 — 값이 바뀔 때마다 Table 컴포넌트를 다시 만들면 테이블이 리마운트되므로,
+    // Table 은 렌더링할 때 ref 로 읽고 이미 그려진 테이블에는 아래 effect 가 DOM 에 직접 넣는다.
+    const tableAriaAttributes = useMemo<Record<string, string | undefined>>(
+        () => ({
+            role: isTreeData ? "treegrid" : "grid",
+            "aria-rowcount": String(ariaRowCount),
+            "aria-colcount": String(columns.length),
+            "aria-busy": String(loading),
+            "aria-multiselectable":
+                selectionEnabled || cellSelection ? "true" : undefined,
+            "aria-label": ariaLabel || undefined,
+        }),
+        [
+            isTreeData,
+            ariaRowCount,
+            columns.length,
+            loading,
+            selectionEnabled,
+            cellSelection,
+            ariaLabel,
+        ],
+    );
+    const tableAriaAttributesRef = useRef(tableAriaAttributes);
+    tableAriaAttributesRef.current = tableAriaAttributes;
 
     // 테이블 컴포넌트 정의 (기존 VirtualDataTable 스타일)
     const VirtuosoTableComponents: TableComponents<T> = useMemo(
         () => ({
             // 스크롤 컨테이너 (외부에서 한 번만 생성된 안정적인 컴포넌트 사용)
             Scroller: VirtuosoScroller,
-            // 테이블 컴포넌트
-            Table: (props) => (
+            // 테이블 컴포넌트 (aria-rowcount 등 자주 바뀌는 grid 속성은 ref 로 읽어 deps 에 넣지 않는다)
+            Table: ({ children, ...props }) => (
                 <Table
                     {...props}
+                    {...tableAriaAttributesRef.current}
                     sx={{
                         borderCollapse: "separate",
                         tableLayout: "fixed",
@@ -1058,7 +3713,16 @@ function VirtualDataTableComponent<T>({
                         // (실제 바닥 정렬은 tbody 가 늘어나며 처리 — 행 높이는 그대로 유지)
                         ...(hasFooter ? { height: "100%" } : {}),
                     }}
-                />
+                >
+                    <ColumnWidthsColGroup />
+                    {children}
+                </Table>
+            ),
+            // 가상화 위/아래 여백 행 — 스크린 리더가 행으로 읽지 않게 숨긴다.
+            FillerRow: ({ height }) => (
+                <tr aria-hidden>
+                    <td style={{ height, padding: 0, border: 0 }} />
+                </tr>
             ),
             // 테이블 헤더 (고정 위치)
             TableHead: forwardRef<HTMLTableSectionElement, any>(
@@ -1082,49 +3746,162 @@ function VirtualDataTableComponent<T>({
                     />
                 ),
             ),
-            // 테이블 행 (클릭 이벤트 및 호버 효과 포함)
+            // 그룹 행 (groupBy) — 클릭하면 펼침/접힘, 스크롤 시 헤더 아래에 고정된다.
+            Group: (props: any) => {
+                const { style, ...rest } = props as any;
+                // 그룹 행의 'data-item-index' 는 그룹 index 다.
+                const groupIndex = rest["data-item-index"] ?? 0;
+                // 'data-index' 는 그룹 행을 포함한 전체 목록 위치다. (aria-rowindex 는 헤더 다음부터 1 기준)
+                const ariaRowIndex = rest["data-index"] + headerRowCount + 1;
+                const groupBackgroundColor = (theme: Theme) =>
+                    theme.palette.mode === "dark"
+                        ? theme.palette.grey[900]
+                        : theme.palette.grey[100];
+                return (
+                    <MuiTableRow
+                        {...rest}
+                        aria-rowindex={ariaRowIndex}
+                        style={style}
+                        onClick={() => toggleGroupRef.current(groupIndex)}
+                        sx={{
+                            userSelect: "none",
+                            height: rowHeight,
+                            cursor: "pointer",
+                            "--vdt-row-bg": groupBackgroundColor,
+                            "& td": {
+                                padding: "8px 16px",
+                                backgroundColor: groupBackgroundColor,
+                                borderBottom: rowDivider
+                                    ? (theme: Theme) =>
+                                          `1px solid ${getTableDividerColor(theme)}`
+                                    : "none",
+                            },
+                        }}
+                    />
+                );
+            },
             // 테이블 행 (클릭 이벤트 및 호버 효과 포함)
             TableRow: (props: any) => {
                 const {
-                    item,
+                    item: itemProp,
                     selected: _selected,
                     "aria-selected": _ariaSelected,
                     className,
                     ...rest
                 } = props as any;
-                // react-virtuoso는 'data-index' 속성으로 index를 전달합니다
-                const rowIndex = rest["data-index"] ?? 0;
+                // react-virtuoso는 'data-item-index' 속성으로 그룹 행을 세지 않은 index를 전달합니다
+                // (상세 행이 끼어 있으면 표시 목록에서 data index 로 바꾼다)
+                const displayIndex =
+                    (rest["data-item-index"] ?? rest["data-index"] ?? 0) -
+                    firstItemIndexRef.current;
+                const displayRow = displayRowsRef.current?.[displayIndex];
+                const rowIndex = displayRow ? displayRow.index : displayIndex;
+                const item = itemProp ?? dataRef.current[rowIndex];
+                // 'data-index' 는 그룹 행을 포함한 전체 목록 위치다. (aria-rowindex 는 헤더 다음부터 1 기준)
+                const ariaRowIndex = rest["data-index"] + headerRowCount + 1;
+
+                // 하단 추가 로드 행: 선택/클릭/hover 없이 그대로 렌더링
+                if (displayIndex >= displayCountRef.current) {
+                    return (
+                        <MuiTableRow
+                            {...rest}
+                            aria-rowindex={ariaRowIndex}
+                            className="vdt-load-more-row"
+                        />
+                    );
+                }
+                // 상세 패널 행: 선택/클릭/hover 없이 그대로 렌더링
+                if (displayRow?.detail) {
+                    return (
+                        <MuiTableRow
+                            {...rest}
+                            aria-rowindex={ariaRowIndex}
+                            className="vdt-detail-row"
+                            sx={{
+                                "& > td": {
+                                    borderBottom: rowDivider
+                                        ? (theme: Theme) =>
+                                              `1px solid ${getTableDividerColor(theme)}`
+                                        : "none",
+                                },
+                            }}
+                        />
+                    );
+                }
                 const isOddRow = rowIndex % 2 === 1;
-                const rowId =
-                    item && getRowIdRef.current
-                        ? getRowIdRef.current(item, rowIndex)
-                        : rowIndex;
+                // 행 높이 (getRowHeight 가 있으면 행별 높이. measureRows 에서는 최소 높이로 쓰이고 내용에 맞춰 늘어난다)
+                const resolvedRowHeight =
+                    item && getRowHeightRef.current
+                        ? getRowHeightRef.current(item, rowIndex)
+                        : rowHeight;
+                // 불러오지 않은 행(sparse placeholder/로딩 행)은 식별자가 없다.
+                const rowProps = item
+                    ? getRowPropsRef.current(item, rowIndex)
+                    : undefined;
+                const rowId = rowProps?.rowId;
                 // CSS 하이라이트 모드에서는 행 자체에서 선택을 계산하지 않는다(컨테이너 CSS 가 처리).
                 // → selectedRowId 변경이 행 재렌더로 이어지지 않는다.
                 const isSelected =
                     !useCssRowHighlight &&
-                    selectedRowId !== null &&
-                    selectedRowId !== undefined &&
-                    rowId === selectedRowId;
+                    ((selectedRowId !== null &&
+                        selectedRowId !== undefined &&
+                        rowId === selectedRowId) ||
+                        !!rowProps?.selected);
                 const resolvedSelectedRowSx =
                     isSelected && selectedRowSx
                         ? typeof selectedRowSx === "function"
-                            ? selectedRowSx(item, rowIndex)
+                            ? withPinnedRowBackground(
+                                  selectedRowSx(item, rowIndex),
+                              )
                             : selectedRowSx
                         : undefined;
-                const sanitizedClassName = String(className ?? "")
-                    .split(/\s+/)
-                    .filter(
-                        (token) =>
-                            token !== "Mui-selected" &&
-                            token !== "Mui-focusVisible",
-                    )
-                    .join(" ");
+                // 행 hover 배경색 (고정 컬럼 셀도 같은 색을 쓰도록 --vdt-row-bg 에도 넣는다)
+                const hoverBackgroundColor = (theme: Theme) => {
+                    const opacity = rowHoverOpacity ?? 0.06;
+
+                    // 기본값은 본문 글자색 — 다크 모드에서는 밝은 색이 된다.
+                    if (!rowHoverColor) {
+                        return alpha(theme.palette.text.primary, opacity);
+                    }
+
+                    const hex = rowHoverColor.replace("#", "").trim();
+                    if (hex.length !== 6) {
+                        return rowHoverColor;
+                    }
+
+                    const r = parseInt(hex.substring(0, 2), 16);
+                    const g = parseInt(hex.substring(2, 4), 16);
+                    const b = parseInt(hex.substring(4, 6), 16);
+
+                    return `rgba(${r}, ${g}, ${b}, ${opacity})`;
+                };
+                const sanitizedClassName = [
+                    ...String(className ?? "")
+                        .split(/\s+/)
+                        .filter(
+                            (token) =>
+                                token &&
+                                token !== "Mui-selected" &&
+                                token !== "Mui-focusVisible",
+                        ),
+                    virtualDataTableClasses.row,
+                    ...(item ? [] : ["vdt-placeholder-row"]),
+                ].join(" ");
 
                 return (
                     <MuiTableRow
                         {...rest}
-                        data-row-id={rowId !== null && rowId !== undefined ? String(rowId) : undefined}
+                        aria-rowindex={ariaRowIndex}
+                        aria-selected={
+                            rowProps?.["aria-selected"] ??
+                            (rowProps && selectedRowIdRef.current !== undefined
+                                ? selectedRowIdRef.current !== null &&
+                                  rowProps.rowId === selectedRowIdRef.current
+                                : undefined)
+                        }
+                        aria-level={rowProps?.["aria-level"]}
+                        aria-expanded={rowProps?.["aria-expanded"]}
+                        data-row-id={rowProps?.["data-row-id"]}
                         className={sanitizedClassName || undefined}
                         selected={isSelected}
                         onMouseDown={(e: any) => {
@@ -1151,6 +3928,21 @@ function VirtualDataTableComponent<T>({
                                 isScrollDraggingRef.current = false;
                                 return;
                             }
+                            if (item) {
+                                changeActiveRowRef.current(rowIndex, false);
+                            }
+                            if (item && selectionEnabled) {
+                                const toggle = e.ctrlKey || e.metaKey;
+                                selectRowRef.current(rowIndex, {
+                                    shiftKey: e.shiftKey,
+                                    toggle,
+                                });
+                                // 수정키 클릭은 선택 조작으로만 처리한다.
+                                if (e.shiftKey || toggle) {
+                                    isScrollDraggingRef.current = false;
+                                    return;
+                                }
+                            }
                             if (item && onRowClickRef.current) {
                                 onRowClickRef.current(item, rowIndex);
                             }
@@ -1159,15 +3951,20 @@ function VirtualDataTableComponent<T>({
                         sx={[
                             {
                                 userSelect: "none",
-                                height: rowHeight,
+                                height: resolvedRowHeight,
                                 backgroundColor:
                                     isOddRow && stripedRowColor
                                         ? stripedRowColor
                                         : "transparent",
+                                "--vdt-row-bg":
+                                    isOddRow && stripedRowColor
+                                        ? stripedRowColor
+                                        : undefined,
                                 "& td": {
                                     padding: "8px 16px",
                                     borderBottom: rowDivider
-                                        ? "1px solid rgba(224, 224, 224, 1)"
+                                        ? (theme: Theme) =>
+                                              `1px solid ${getTableDividerColor(theme)}`
                                         : "none",
                                 },
                                 "& th": {
@@ -1177,46 +3974,10 @@ function VirtualDataTableComponent<T>({
                                 "&:hover":
                                     hasRowClick && !isSelected
                                         ? {
-                                              backgroundColor: (theme) => {
-                                                  const isDark =
-                                                      theme.palette.mode ===
-                                                      "dark";
-                                                  const defaultColor =
-                                                      "#000000";
-                                                  const color =
-                                                      rowHoverColor ??
-                                                      defaultColor;
-                                                  const opacity =
-                                                      rowHoverOpacity ?? 0.06;
-
-                                                  if (!rowHoverColor) {
-                                                      return isDark
-                                                          ? `rgba(255, 255, 255, ${opacity})`
-                                                          : `rgba(0, 0, 0, ${opacity})`;
-                                                  }
-
-                                                  const hex = color
-                                                      .replace("#", "")
-                                                      .trim();
-                                                  if (hex.length !== 6) {
-                                                      return color;
-                                                  }
-
-                                                  const r = parseInt(
-                                                      hex.substring(0, 2),
-                                                      16,
-                                                  );
-                                                  const g = parseInt(
-                                                      hex.substring(2, 4),
-                                                      16,
-                                                  );
-                                                  const b = parseInt(
-                                                      hex.substring(4, 6),
-                                                      16,
-                                                  );
-
-                                                  return `rgba(${r}, ${g}, ${b}, ${opacity})`;
-                                              },
+                                              backgroundColor:
+                                                  hoverBackgroundColor,
+                                              "--vdt-row-bg":
+                                                  hoverBackgroundColor,
                                           }
                                         : undefined,
                                 cursor: hasRowClick ? "pointer" : undefined,
@@ -1241,7 +4002,8 @@ function VirtualDataTableComponent<T>({
                         {/* fill 모드(hasFooter)에서 table/tbody 의 height:100% 때문에 남는 높이가
                             데이터 <tr> 에 분배되어 행이 rowHeight 보다 커지는 문제를 막는 spacer.
                             유연한 빈 행이 남는 공간을 흡수 → 데이터 행은 rowHeight 로 고정되고,
-                            sticky footer 는 그 아래 바닥에 붙는다. 스크롤이 생기면 0 으로 접힌다. */}
+                            sticky footer 는 그 아래 바닥에 붙는다. 스크롤이 생기면 0 으로 접힌다.
+                            가변 행 높이 모드에서도 Virtuoso 가 늘어나지 않은 실제 행 높이를 측정하게 한다. */}
                         {hasFooter && (
                             <tr aria-hidden style={{ height: "100%" }}>
                                 <td
@@ -1259,15 +4021,14 @@ function VirtualDataTableComponent<T>({
                     <MuiTableFooter
                         {...props}
                         ref={ref}
+                        className={virtualDataTableClasses.footer}
                         sx={[
                             {
                                 position: "sticky",
                                 bottom: 0,
                                 zIndex: 2,
                                 backgroundColor: (theme) =>
-                                    theme.palette.mode === "dark"
-                                        ? "#1e1e1e"
-                                        : "#ffffff",
+                                    theme.palette.background.paper,
                                 "& tr": {
                                     height: footerHeight ?? rowHeight,
                                 },
@@ -1275,7 +4036,8 @@ function VirtualDataTableComponent<T>({
                                     padding: "16px",
                                     color: "inherit",
                                     fontSize: "0.875rem",
-                                    borderTop: "1px solid #000000",
+                                    borderTop: (theme: Theme) =>
+                                        `1px solid ${theme.palette.text.primary}`,
                                     borderBottom: "none",
                                 },
                             },
@@ -1295,8 +4057,12 @@ function VirtualDataTableComponent<T>({
             // CSS 하이라이트 모드에서는 selectedRowId 가 components 를 재생성하지 않게 한다(행 재렌더 방지).
             // 함수형 selectedRowSx(per-row) 일 때만 selectedRowId 변경으로 components 를 갱신한다.
             useCssRowHighlight ? null : selectedRowId,
+            useCssRowHighlight ? null : selectedIdSet,
+            useCssRowHighlight ? null : currentAllRowsSelected,
+            selectionEnabled,
             selectedRowSx,
             rowHeight,
+            hasRowHeightFn,
             stripedRowColor,
             rowDivider,
             columnHeight,
@@ -1308,55 +4074,200 @@ function VirtualDataTableComponent<T>({
             hasFooter,
             // spacer 행의 colSpan 계산에 사용 (컬럼 구조 변경 시 components 재생성)
             columns,
+            headerRowCount,
         ],
     );
 
     const resolvedVirtuosoComponents = VirtuosoTableComponents;
 
+    // grid 속성 반영 — 테이블이 리마운트되지 않고 값만 바뀐 경우 (리마운트되면 Table 이 ref 로 읽어 렌더링한다)
+    useEffect(() => {
+        const tableEl = scrollerElRef.current?.querySelector("table");
+        if (!tableEl) {
+            return;
+        }
+        Object.entries(tableAriaAttributes).forEach(([name, value]) => {
+            if (value === undefined) {
+                tableEl.removeAttribute(name);
+            } else {
+                tableEl.setAttribute(name, value);
+            }
+        });
+    }, [tableAriaAttributes, VirtuosoTableComponents, tableKey]);
+
+    const isEmpty = (isSparse ? rowCount : processedData.length) === 0;
+
     // 공통 테이블 내용
     const tableContent = (
         <Box
+            ref={tableRootRef}
+            tabIndex={0}
+            onKeyDown={handleKeyDown}
+            onCopy={handleCopy}
             sx={
                 {
                     position: "relative",
                     height: "100%",
                     width: "100%",
+                    outline: "none",
                     "& .MuiTableHead-root": {
                         backgroundColor: (theme: Theme) =>
-                            theme.palette.mode === "dark"
-                                ? "#1e1e1e !important"
-                                : "#ffffff !important",
+                            `${theme.palette.background.paper} !important`,
                     },
                     // 선택 행 CSS 하이라이트 (selectedRowId 변경 시 이 컨테이너만 갱신, 행 재렌더 없음).
                     ...(selectedRowCssSx ?? {}),
+                    // 다중 선택 하이라이트
+                    ...(selectedRowsCssSx ?? {}),
+                    // 활성 행 포커스 링 (activeRowId 변경 시 이 컨테이너만 갱신)
+                    ...(activeRowCssSx ?? {}),
+                    // 고정 컬럼 셀 배경 — 아래로 지나가는 내용을 가리고, 행 배경(--vdt-row-bg)을 그 위에 겹친다.
+                    "& thead th.vdt-pinned, & tfoot td.vdt-pinned": {
+                        backgroundColor: (theme: Theme) =>
+                            theme.palette.background.paper,
+                    },
+                    "& tbody td.vdt-pinned": {
+                        backgroundColor: (theme: Theme) =>
+                            theme.palette.background.paper,
+                        backgroundImage:
+                            "linear-gradient(var(--vdt-row-bg, transparent), var(--vdt-row-bg, transparent))",
+                    },
+                    // 셀 범위 선택 표시 (고정 셀의 불투명 배경 위에도 보이도록 덮개로 그린다)
+                    "& tbody td.vdt-cell-selected": {
+                        position: "relative",
+                        "&::after": {
+                            content: '""',
+                            position: "absolute",
+                            inset: 0,
+                            pointerEvents: "none",
+                            backgroundColor: (theme: Theme) =>
+                                alpha(theme.palette.primary.main, 0.12),
+                        },
+                    },
+                    // 셀 저장 실패 표시
+                    "& tbody td.vdt-cell-error": {
+                        position: "relative",
+                        boxShadow: (theme: Theme) =>
+                            `inset 0 0 0 2px ${theme.palette.error.main}`,
+                    },
+                    "&[data-vdt-scrolled-left] .vdt-pinned-left-edge": {
+                        boxShadow: PINNED_LEFT_SHADOW,
+                    },
+                    "&[data-vdt-scrolled-right] .vdt-pinned-right-edge": {
+                        boxShadow: PINNED_RIGHT_SHADOW,
+                    },
+                    // 테마 styleOverrides — 반복되는 슬롯(헤더 셀/행/셀/합계 행)은 클래스 선택자로 한 번에 적용해
+                    // 행·셀 컴포넌트를 다시 만들지 않는다.
+                    [`& .${virtualDataTableClasses.headerCell}`]:
+                        getSlotStyle("headerCell"),
+                    [`& .${virtualDataTableClasses.row}`]: getSlotStyle("row"),
+                    [`& .${virtualDataTableClasses.cell}`]:
+                        getSlotStyle("cell"),
+                    [`& .${virtualDataTableClasses.footer}`]:
+                        getSlotStyle("footer"),
                 } as SxProps<Theme>
             }
         >
             {/* 테이블 */}
-            <TableVirtuoso
-                key={tableKey}
-                ref={virtuosoRef}
-                data={data}
-                totalCount={onLoadMore ? data.length + 1 : data.length}
-                defaultItemHeight={estimatedItemHeight}
-                fixedItemHeight={estimatedItemHeight}
-                fixedHeaderContent={fixedHeaderContent}
-                fixedFooterContent={hasFooter ? fixedFooterContent : undefined}
-                itemContent={rowContent}
-                endReached={handleEndReached}
-                style={{ height: "100%" }}
-                increaseViewportBy={{
-                    top: viewportBufferTop,
-                    bottom: viewportBufferBottom,
-                }}
-                overscan={virtuosoOverscan}
-                followOutput={false}
-                components={resolvedVirtuosoComponents}
-            />
+            <ColumnWidthsContext.Provider value={columnWidthList}>
+                {rowGroups ? (
+                    // 그룹 모드: 그룹 행이 헤더 아래에 고정되며, 접힌 그룹은 행 수 0 으로 넘긴다.
+                    <GroupedTableVirtuoso
+                        key={tableKey}
+                        ref={virtuosoRef}
+                        scrollerRef={handleScrollerRef}
+                        groupCounts={virtuosoGroupCounts}
+                        groupContent={groupContent}
+                        defaultItemHeight={estimatedItemHeight}
+                        fixedItemHeight={
+                            hasVariableRowHeights
+                                ? undefined
+                                : estimatedItemHeight
+                        }
+                        fixedHeaderContent={fixedHeaderContent}
+                        fixedFooterContent={
+                            hasFooter ? fixedFooterContent : undefined
+                        }
+                        itemContent={displayItemContent}
+                        rangeChanged={handleRangeChanged}
+                        startReached={
+                            canLoadPrevious ? handleStartReached : undefined
+                        }
+                        firstItemIndex={firstItemIndex}
+                        initialTopMostItemIndex={
+                            virtuosoInitialTopMostItemIndex
+                        }
+                        style={{ height: "100%" }}
+                        increaseViewportBy={{
+                            top: viewportBufferTop,
+                            bottom: viewportBufferBottom,
+                        }}
+                        overscan={virtuosoOverscan}
+                        followOutput={false}
+                        components={resolvedVirtuosoComponents}
+                    />
+                ) : (
+                    <TableVirtuoso
+                        key={tableKey}
+                        ref={virtuosoRef}
+                        scrollerRef={handleScrollerRef}
+                        data={displayLayout.rows || isSparse ? undefined : data}
+                        totalCount={
+                            showLoadMoreRow
+                                ? displayLayout.count + 1
+                                : displayLayout.count
+                        }
+                        defaultItemHeight={estimatedItemHeight}
+                        fixedItemHeight={
+                            hasVariableRowHeights
+                                ? undefined
+                                : estimatedItemHeight
+                        }
+                        fixedHeaderContent={fixedHeaderContent}
+                        fixedFooterContent={
+                            hasFooter ? fixedFooterContent : undefined
+                        }
+                        itemContent={displayItemContent}
+                        rangeChanged={handleRangeChanged}
+                        startReached={
+                            canLoadPrevious ? handleStartReached : undefined
+                        }
+                        firstItemIndex={firstItemIndex}
+                        initialTopMostItemIndex={
+                            virtuosoInitialTopMostItemIndex
+                        }
+                        style={{ height: "100%" }}
+                        increaseViewportBy={{
+                            top: viewportBufferTop,
+                            bottom: viewportBufferBottom,
+                        }}
+                        overscan={virtuosoOverscan}
+                        followOutput={false}
+                        components={resolvedVirtuosoComponents}
+                    />
+                )}
+            </ColumnWidthsContext.Provider>
+
+            {/* 컬럼 순서 변경 드롭 위치 표시 */}
+            {columnDropIndicator && (
+                <Box
+                    aria-hidden
+                    sx={{
+                        position: "absolute",
+                        left: columnDropIndicator.left - 1,
+                        top: columnDropIndicator.top,
+                        height: columnDropIndicator.height,
+                        width: "2px",
+                        zIndex: 3,
+                        pointerEvents: "none",
+                        backgroundColor: (theme) => theme.palette.primary.main,
+                    }}
+                />
+            )}
 
             {/* 빈 데이터 표시 */}
-            {data.length === 0 && !loading && (
+            {isEmpty && !loading && (
                 <Box
+                    className={virtualDataTableClasses.empty}
                     sx={{
                         position: "absolute",
                         top: 0,
@@ -1368,6 +4279,7 @@ function VirtualDataTableComponent<T>({
                         alignItems: "center",
                         justifyContent: "center",
                         gap: 2,
+                        ...getSlotStyle("empty"),
                     }}
                 >
                     {typeof emptyMessage === "string" ? (
@@ -1380,8 +4292,8 @@ function VirtualDataTableComponent<T>({
                                     alignItems: "center",
                                     justifyContent: "center",
                                     borderRadius: "50%",
-                                    backgroundColor: "#f5f5f5",
-                                    color: "#999",
+                                    backgroundColor: "action.hover",
+                                    color: "text.disabled",
                                 }}
                             >
                                 📄
@@ -1399,6 +4311,44 @@ function VirtualDataTableComponent<T>({
                 </Box>
             )}
 
+            {/* 위쪽 로드 실패 — 헤더 바로 아래에 오류 메시지와 재시도 버튼을 띄운다. */}
+            {canLoadPrevious && loadPrevious.status === "error" && (
+                <Box
+                    role="alert"
+                    className="vdt-load-previous-error"
+                    sx={{
+                        position: "absolute",
+                        top: `${columnHeight * headerRowCount}px`,
+                        left: 0,
+                        right: 0,
+                        zIndex: 3,
+                        display: "flex",
+                        alignItems: "center",
+                        gap: 1.5,
+                        padding: "4px 16px",
+                        backgroundColor: "background.paper",
+                        borderBottom: (theme: Theme) =>
+                            `1px solid ${getTableDividerColor(theme)}`,
+                    }}
+                >
+                    <Typography variant="body2" color="error">
+                        {getLoadErrorMessage(
+                            loadPrevious.error,
+                            DEFAULT_LOCALE_TEXT.loadPreviousError,
+                            localeText.loadPreviousError,
+                        )}
+                    </Typography>
+                    <Button size="small" onClick={() => loadPrevious.request()}>
+                        {localeText.retry}
+                    </Button>
+                </Box>
+            )}
+
+            {/* 스크린 리더 안내 — 로딩/빈 데이터 상태가 바뀌면 읽어 준다. */}
+            <Box role="status" aria-live="polite" sx={VISUALLY_HIDDEN_SX}>
+                {loading ? localeText.loading : isEmpty ? emptyMessage : null}
+            </Box>
+
             {/* 로딩 스피너 */}
             {shouldShowLoading && (
                 <>
@@ -1412,18 +4362,18 @@ function VirtualDataTableComponent<T>({
                             visible={loading}
                             onComplete={handleLoadingComplete}
                             size={40}
-                            indicator={<CssSpinner />}
+                            indicator={
+                                <CssSpinner label={localeText.loading} />
+                            }
+                            className={virtualDataTableClasses.loading}
                             sx={{
-                                top: `${
-                                    columns.some((col) => col.group)
-                                        ? columnHeight * 2
-                                        : columnHeight
-                                }px`,
+                                top: `${columnHeight * headerRowCount}px`,
                                 // 푸터(합계 행)가 있으면 그 높이만큼 아래를 잘라, 헤더~푸터 사이 내용 영역 중앙에 스피너를 둔다.
                                 bottom: `${hasFooter ? footerHeight ?? rowHeight : 0}px`,
+                                ...getSlotStyle("loading"),
                             }}
                             background={{
-                                show: data.length === 0, // 최초 로딩에만 배경 표시
+                                show: dataProp.length === 0, // 최초 로딩에만 배경 표시
                                 opacity: 0.8,
                             }}
                         />
@@ -1435,7 +4385,7 @@ function VirtualDataTableComponent<T>({
 
     return showPaper ? (
         <Paper
-            className="grow"
+            className={`grow ${virtualDataTableClasses.root}`}
             elevation={1}
             sx={{
                 padding: 0,
@@ -1445,13 +4395,15 @@ function VirtualDataTableComponent<T>({
                 flex: 1,
                 display: "flex",
                 flexDirection: "column",
+                ...getSlotStyle("root"),
             }}
         >
             {tableContent}
         </Paper>
     ) : (
         <Box
-            className="grow"
+            className={`grow ${virtualDataTableClasses.root}`}
+            sx={getSlotStyle("root")}
             style={{
                 padding: 0,
                 paddingLeft: paddingX,
@@ -1467,6 +4419,11 @@ function VirtualDataTableComponent<T>({
     );
 }
 
-export const VirtualDataTable = memo(VirtualDataTableComponent) as <T>(
-    props: VirtualDataTableProps<T>,
+// forwardRef/memo 는 제네릭을 잃으므로 행 타입 T 를 유지하도록 다시 선언한다.
+export const VirtualDataTable = memo(forwardRef(VirtualDataTableComponent)) as <
+    T,
+>(
+    props: VirtualDataTableProps<T> & {
+        ref?: React.Ref<VirtualDataTableHandle<T>>;
+    },
 ) => React.JSX.Element;
@@ -0,0 +1,248 @@
+/**
+ * columns.ts - 컬럼 정의 보조 함수
+ *
+ * MIT License
+ *
+ * Copyright (c) 2025 KIM YOUNG JIN (ehfuse@gmail.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import type { ColumnVisibility, DataColumn, HeaderGroup } from "./types";
+
+/**
+ * 행에서 컬럼 id 필드 값을 읽는다.
+ * 정렬/필터/편집/내보내기의 컬럼별 값 함수(sortValue 등)가 없을 때의 공통 기본값이다.
+ */
+export function getFieldValue<T>(
+    item: T,
+    column: Pick<DataColumn<T>, "id">,
+): unknown {
+    return (item as Record<PropertyKey, unknown>)[column.id as PropertyKey];
+}
+
+/**
+ * 컬럼 id 순서(columnOrder)대로 컬럼을 정렬한다.
+ * 순서 목록에 없는 컬럼(새로 추가된 컬럼 등)은 원래 상대 순서대로 뒤에 붙고,
+ * 목록에만 있고 컬럼에 없는 id 는 무시한다.
+ */
+export function applyColumnOrder<T>(
+    columns: DataColumn<T>[],
+    columnOrder: string[] | undefined,
+): DataColumn<T>[] {
+    if (!columnOrder || columnOrder.length === 0) {
+        return columns;
+    }
+    const orderIndex = new Map<string, number>();
+    columnOrder.forEach((id, index) => orderIndex.set(id, index));
+
+    const ordered = columns.filter((col) => orderIndex.has(String(col.id)));
+    ordered.sort(
+        (a, b) =>
+            (orderIndex.get(String(a.id)) ?? 0) -
+            (orderIndex.get(String(b.id)) ?? 0),
+    );
+    const rest = columns.filter((col) => !orderIndex.has(String(col.id)));
+    return [...ordered, ...rest];
+}
+
+/**
+ * movingIds 블록을 targetIds 블록의 앞(또는 뒤)으로 옮긴 새 id 순서를 반환한다.
+ * movingIds 는 원래 순서를 유지한 채 연속으로 배치된다.
+ */
+export function moveColumnIds(
+    ids: string[],
+    movingIds: string[],
+    targetIds: string[],
+    placeAfter: boolean,
+): string[] {
+    const moving = new Set(movingIds);
+    const movingBlock = ids.filter((id) => moving.has(id));
+    const remaining = ids.filter((id) => !moving.has(id));
+    const targetPositions = targetIds
+        .map((id) => remaining.indexOf(id))
+        .filter((index) => index >= 0);
+    if (movingBlock.length === 0 || targetPositions.length === 0) {
+        return ids;
+    }
+    const insertAt = placeAfter
+        ? Math.max(...targetPositions) + 1
+        : Math.min(...targetPositions);
+    return [
+        ...remaining.slice(0, insertAt),
+        ...movingBlock,
+        ...remaining.slice(insertAt),
+    ];
+}
+
+/**
+ * 고정(pinned) 컬럼을 양 끝으로 모은다. (왼쪽 고정 → 일반 → 오른쪽 고정, 각 영역 안의 순서는 유지)
+ */
+export function applyColumnPinning<T>(
+    columns: DataColumn<T>[],
+): DataColumn<T>[] {
+    if (!columns.some((col) => col.pinned)) {
+        return columns;
+    }
+    return [
+        ...columns.filter((col) => col.pinned === "left"),
+        ...columns.filter((col) => !col.pinned),
+        ...columns.filter((col) => col.pinned === "right"),
+    ];
+}
+
+/**
+ * 컬럼 표시 여부 (columnVisibility 에 값이 있으면 그 값, 없으면 defaultHidden 의 반대)
+ * hideable: false 인 컬럼은 항상 표시한다.
+ */
+export function isColumnVisible<T>(
+    column: DataColumn<T>,
+    columnVisibility: ColumnVisibility,
+): boolean {
+    if (column.hideable === false) {
+        return true;
+    }
+    return columnVisibility[String(column.id)] ?? !column.defaultHidden;
+}
+
+/** 숨긴 컬럼을 뺀다. (모두 표시 중이면 원래 배열을 그대로 반환) */
+export function applyColumnVisibility<T>(
+    columns: DataColumn<T>[],
+    columnVisibility: ColumnVisibility,
+): DataColumn<T>[] {
+    const visibleColumns = columns.filter((col) =>
+        isColumnVisible(col, columnVisibility),
+    );
+    return visibleColumns.length === columns.length ? columns : visibleColumns;
+}
+
+/** 컬럼의 그룹 경로 (바깥 그룹부터, 그룹이 없으면 빈 배열) */
+export function getColumnGroupPath<T>(column: DataColumn<T>): string[] {
+    if (Array.isArray(column.group)) {
+        return column.group;
+    }
+    return column.group ? [column.group] : [];
+}
+
+/** path 가 prefix 로 시작하는지 */
+export function hasGroupPathPrefix(path: string[], prefix: string[]): boolean {
+    return (
+        path.length >= prefix.length &&
+        prefix.every((group, index) => path[index] === group)
+    );
+}
+
+/**
+ * 헤더 줄별 셀을 계산한다. (줄 수 = 가장 깊은 그룹 경로 + 1)
+ * 각 줄에서 같은 그룹 경로·같은 고정 상태로 연속된 컬럼을 그룹 헤더 하나로 묶고,
+ * 컬럼 헤더는 그룹 바로 아래 줄에서 시작해 남은 줄을 모두 차지한다.
+ * 컬럼 순서는 바꾸지 않으므로 헤더 순서가 항상 바디 셀 순서와 같다.
+ */
+export function getHeaderRows<T>(columns: DataColumn<T>[]): HeaderGroup<T>[][] {
+    const paths = columns.map(getColumnGroupPath);
+    const groupDepth = Math.max(0, ...paths.map((path) => path.length));
+    const rows: HeaderGroup<T>[][] = [];
+    for (let level = 0; level <= groupDepth; level += 1) {
+        const cells: HeaderGroup<T>[] = [];
+        let index = 0;
+        while (index < columns.length) {
+            const path = paths[index];
+            if (path.length < level) {
+                index += 1;
+                continue;
+            }
+            if (path.length === level) {
+                cells.push({
+                    path,
+                    columns: [columns[index]],
+                    startIndex: index,
+                    rowSpan: groupDepth + 1 - level,
+                });
+                index += 1;
+                continue;
+            }
+
+            const groupPath = path.slice(0, level + 1);
+            let end = index + 1;
+            while (
+                end < columns.length &&
+                paths[end].length > level &&
+                hasGroupPathPrefix(paths[end], groupPath) &&
+                columns[end].pinned === columns[index].pinned
+            ) {
+                end += 1;
+            }
+            cells.push({
+                group: path[level],
+                path: groupPath,
+                columns: columns.slice(index, end),
+                startIndex: index,
+                rowSpan: 1,
+            });
+            index = end;
+        }
+        rows.push(cells);
+    }
+    return rows;
+}
+
+/**
+ * 헤더 줄 앞/뒤에 그룹 없는 컬럼을 덧붙인다. (체크박스처럼 테이블이 그리는 컬럼용)
+ * 덧붙인 컬럼은 첫 줄에서 헤더 줄 전체를 차지하고, 기존 셀의 startIndex 는 앞에 붙인 수만큼 민다.
+ */
+export function addHeaderColumns<T>(
+    headerRows: HeaderGroup<T>[][],
+    leading: DataColumn<T>[],
+    trailing: DataColumn<T>[],
+): HeaderGroup<T>[][] {
+    if (leading.length === 0 && trailing.length === 0) {
+        return headerRows;
+    }
+    const rowSpan = headerRows.length;
+    // 첫 줄은 모든 컬럼을 한 번씩 덮는다.
+    const columnCount = (headerRows[0] ?? []).reduce(
+        (count, cell) => count + cell.columns.length,
+        0,
+    );
+    const toCell = (column: DataColumn<T>, startIndex: number) => ({
+        path: [],
+        columns: [column],
+        startIndex,
+        rowSpan,
+    });
+    return headerRows.map((cells, level) => {
+        const shifted =
+            leading.length > 0
+                ? cells.map((cell) => ({
+                      ...cell,
+                      startIndex: cell.startIndex + leading.length,
+                  }))
+                : cells;
+        if (level > 0) {
+            return shifted;
+        }
+        return [
+            ...leading.map((column, index) => toCell(column, index)),
+            ...shifted,
+            ...trailing.map((column, index) =>
+                toCell(column, leading.length + columnCount + index),
+            ),
+        ];
+    });
+}
@@ -0,0 +1,152 @@
+/**
+ * export.ts - CSV/TSV 내보내기
+ *
+ * MIT License
+ *
+ * Copyright (c) 2025 KIM YOUNG JIN (ehfuse@gmail.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import {
+    getColumnGroupPath,
+    getFieldValue,
+    hasGroupPathPrefix,
+} from "./columns";
+import type { DataColumn, TableExportOptions } from "./types";
+
+const UTF8_BOM = "\uFEFF";
+
+/** 컬럼의 내보내기 값 (exportValue 가 없으면 id 필드 값) */
+export function getExportValue<T>(column: DataColumn<T>, item: T): unknown {
+    return column.exportValue
+        ? column.exportValue(item)
+        : getFieldValue(item, column);
+}
+
+/** 내보내기 값을 문자열로 바꾼다. (null/undefined 는 빈 칸, Date 는 ISO 문자열) */
+export function formatExportValue(value: unknown): string {
+    if (value === null || value === undefined) {
+        return "";
+    }
+    if (value instanceof Date) {
+        return Number.isNaN(value.getTime()) ? "" : value.toISOString();
+    }
+    if (typeof value === "object") {
+        return JSON.stringify(value);
+    }
+    return String(value);
+}
+
+/** 컬럼 헤더 문자열 (text 가 문자열이 아니면 id) */
+function getExportHeader<T>(column: DataColumn<T>): string {
+    return typeof column.text === "string" ? column.text : String(column.id);
+}
+
+/**
+ * 구분자/따옴표/줄바꿈이 들어 있으면 큰따옴표로 감싼다. (RFC 4180, 안쪽 따옴표는 두 번 씀)
+ * TSV 도 같은 규칙을 쓰며 Excel 이 그대로 읽는다.
+ */
+export function escapeDelimitedField(value: string, delimiter: string): string {
+    if (
+        value.includes(delimiter) ||
+        value.includes('"') ||
+        value.includes("\n") ||
+        value.includes("\r")
+    ) {
+        return `"${value.replace(/"/g, '""')}"`;
+    }
+    return value;
+}
+
+/**
+ * 컬럼 정의로 행을 CSV/TSV 문자열로 변환한다. (줄 구분은 CRLF)
+ * render 는 React 노드를 반환하므로 쓰지 않고 exportValue(없으면 id 필드 값)를 쓴다.
+ * includeGroupHeaders 면 그룹 헤더 줄을 추가하고, 같은 그룹이 이어지는 첫 칸에만 그룹명을 쓴다.
+ */
+export function exportTableData<T>(
+    columns: DataColumn<T>[],
+    rows: T[],
+    options: TableExportOptions = {},
+): string {
+    const {
+        format = "csv",
+        includeHeaders = true,
+        includeGroupHeaders = false,
+        bom = true,
+    } = options;
+    const delimiter = format === "tsv" ? "\t" : ",";
+    const toLine = (values: string[]) =>
+        values
+            .map((value) => escapeDelimitedField(value, delimiter))
+            .join(delimiter);
+
+    const lines: string[] = [];
+    if (includeGroupHeaders) {
+        // 그룹 깊이마다 한 줄 — 그룹명은 같은 그룹이 이어지는 첫 컬럼에만 쓴다.
+        const paths = columns.map(getColumnGroupPath);
+        const groupDepth = Math.max(0, ...paths.map((path) => path.length));
+        for (let level = 0; level < groupDepth; level += 1) {
+            lines.push(
+                toLine(
+                    paths.map((path, index) =>
+                        path.length > level &&
+                        !hasGroupPathPrefix(
+                            paths[index - 1] ?? [],
+                            path.slice(0, level + 1),
+                        )
+                            ? path[level]
+                            : "",
+                    ),
+                ),
+            );
+        }
+    }
+    if (includeHeaders) {
+        lines.push(toLine(columns.map(getExportHeader)));
+    }
+    rows.forEach((item) => {
+        lines.push(
+            toLine(
+                columns.map((col) =>
+                    formatExportValue(getExportValue(col, item)),
+                ),
+            ),
+        );
+    });
+
+    return (bom ? UTF8_BOM : "") + lines.join("\r\n");
+}
+
+/** exportTableData 결과를 파일로 내려받는다. (브라우저 전용) */
+export function downloadTableData(content: string, fileName: string): void {
+    const type = fileName.toLowerCase().endsWith(".tsv")
+        ? "text/tab-separated-values"
+        : "text/csv";
+    const url = URL.createObjectURL(
+        new Blob([content], { type: `${type};charset=utf-8` }),
+    );
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+}
@@ -0,0 +1,152 @@
+/**
+ * filtering.ts - 클라이언트 필터
+ *
+ * MIT License
+ *
+ * Copyright (c) 2025 KIM YOUNG JIN (ehfuse@gmail.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { getFieldValue } from "./columns";
+import type { ColumnFilterValue, DataColumn, FilterModel } from "./types";
+
+/** 컬럼의 필터 기준 값 (filter.getValue 가 없으면 id 필드 값) */
+export function getFilterValue<T>(column: DataColumn<T>, item: T): unknown {
+    return column.filter?.getValue
+        ? column.filter.getValue(item)
+        : getFieldValue(item, column);
+}
+
+/** 필터 값이 실제로 조건을 담고 있는지 (빈 입력은 필터 해제로 본다) */
+export function isFilterActive(value: ColumnFilterValue | undefined): boolean {
+    if (!value) {
+        return false;
+    }
+    switch (value.type) {
+        case "text":
+            return value.value.trim() !== "";
+        case "number":
+            return value.min !== undefined || value.max !== undefined;
+        case "date":
+            return !!value.from || !!value.to;
+        case "select":
+            return value.values.length > 0;
+        default:
+            return false;
+    }
+}
+
+/** 값을 로컬 날짜 문자열(YYYY-MM-DD)로 바꾼다. 날짜로 해석할 수 없으면 null */
+export function toDateKey(value: unknown): string | null {
+    if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}/.test(value)) {
+        return value.slice(0, 10);
+    }
+    const date =
+        value instanceof Date
+            ? value
+            : typeof value === "number" || typeof value === "string"
+              ? new Date(value)
+              : null;
+    if (!date || Number.isNaN(date.getTime())) {
+        return null;
+    }
+    const month = String(date.getMonth() + 1).padStart(2, "0");
+    const day = String(date.getDate()).padStart(2, "0");
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/** 값 하나가 필터 조건을 만족하는지 검사한다. */
+export function matchesFilter(
+    cellValue: unknown,
+    filter: ColumnFilterValue,
+): boolean {
+    switch (filter.type) {
+        case "text": {
+            const query = filter.value.trim().toLocaleLowerCase();
+            const text = String(cellValue ?? "").toLocaleLowerCase();
+            return filter.operator === "equals"
+                ? text === query
+                : text.includes(query);
+        }
+        case "number": {
+            if (
+                cellValue === null ||
+                cellValue === undefined ||
+                cellValue === ""
+            ) {
+                return false;
+            }
+            const num = Number(cellValue);
+            if (Number.isNaN(num)) {
+                return false;
+            }
+            return (
+                (filter.min === undefined || num >= filter.min) &&
+                (filter.max === undefined || num <= filter.max)
+            );
+        }
+        case "date": {
+            const key = toDateKey(cellValue);
+            if (key === null) {
+                return false;
+            }
+            // 기간 양 끝 날짜를 포함한다.
+            return (
+                (!filter.from || key >= filter.from) &&
+                (!filter.to || key <= filter.to)
+            );
+        }
+        case "select":
+            return filter.values.some(
+                (selected) => String(selected) === String(cellValue),
+            );
+        default:
+            return true;
+    }
+}
+
+/** 필터 모델의 모든 조건(AND)을 만족하는 행만 남긴다. */
+export function filterRows<T>(
+    rows: T[],
+    filterModel: FilterModel,
+    columns: DataColumn<T>[],
+): T[] {
+    const filters = Object.entries(filterModel)
+        .filter(([, value]) => isFilterActive(value))
+        .map(([columnId, value]) => ({
+            column: columns.find((col) => String(col.id) === columnId),
+            value: value as ColumnFilterValue,
+        }))
+        .filter(
+            (
+                entry,
+            ): entry is { column: DataColumn<T>; value: ColumnFilterValue } =>
+                !!entry.column,
+        );
+    if (filters.length === 0) {
+        return rows;
+    }
+
+    return rows.filter((item) =>
+        filters.every(({ column, value }) =>
+            matchesFilter(getFilterValue(column, item), value),
+        ),
+    );
+}
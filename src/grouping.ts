@@ -0,0 +1,119 @@
+/**
+ * grouping.ts - 행 그룹과 그룹 집계
+ *
+ * MIT License
+ *
+ * Copyright (c) 2025 KIM YOUNG JIN (ehfuse@gmail.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import type React from "react";
+import { getFieldValue } from "./columns";
+import type { DataColumn, GroupAggregate, RowGroup } from "./types";
+
+/** 그룹 값을 표시용 문자열로 바꾼다. (그룹 키는 getGroupKey 로 따로 만든다) */
+export function formatGroupValue(value: unknown): string {
+    if (value === null || value === undefined || value === "") {
+        return "(blank)";
+    }
+    return value instanceof Date ? value.toLocaleDateString() : String(value);
+}
+
+/**
+ * 그룹 값 조합의 키 (JSON 배열 문자열, 예: `["서울","완료"]`)
+ * 표시 문자열을 이으면 "a / b" 같은 값끼리, 빈 값끼리 섞이므로 원래 값으로 만든다.
+ * undefined 는 JSON 규칙대로 null 과 같은 키가 된다.
+ */
+export function getGroupKey(values: unknown[]): string {
+    return JSON.stringify(values);
+}
+
+/**
+ * 행을 groupBy 값 조합별로 묶는다.
+ * 그룹은 (정렬된) 행에서 처음 나타난 순서를 따르고, 그룹 안의 행 순서도 유지한다.
+ */
+export function groupRows<T>(rows: T[], groupBy: string[]): RowGroup<T>[] {
+    const groups = new Map<string, RowGroup<T>>();
+    rows.forEach((item) => {
+        const values = groupBy.map((columnId) =>
+            getFieldValue(item, { id: columnId }),
+        );
+        const key = getGroupKey(values);
+        const group = groups.get(key);
+        if (group) {
+            group.rows.push(item);
+        } else {
+            groups.set(key, { key, values, rows: [item] });
+        }
+    });
+    return Array.from(groups.values());
+}
+
+/** 기본 집계 함수 계산 (숫자 값만 대상으로 하며, 값이 없으면 null) */
+function computeAggregate<T>(
+    aggregate: GroupAggregate,
+    column: DataColumn<T>,
+    rows: T[],
+): number | null {
+    if (aggregate === "count") {
+        return rows.length;
+    }
+    const numbers = rows
+        .map((item) => getFieldValue(item, column))
+        .filter(
+            (value) => value !== null && value !== undefined && value !== "",
+        )
+        .map(Number)
+        .filter((value) => !Number.isNaN(value));
+    if (numbers.length === 0) {
+        return null;
+    }
+    switch (aggregate) {
+        case "sum":
+            return numbers.reduce((sum, value) => sum + value, 0);
+        case "avg":
+            return (
+                numbers.reduce((sum, value) => sum + value, 0) / numbers.length
+            );
+        case "min":
+            return numbers.reduce((min, value) => Math.min(min, value));
+        case "max":
+            return numbers.reduce((max, value) => Math.max(max, value));
+        default:
+            return null;
+    }
+}
+
+/** 그룹 행에 표시할 컬럼 집계 값 */
+export function renderGroupAggregate<T>(
+    column: DataColumn<T>,
+    rows: T[],
+): React.ReactNode {
+    if (!column.aggregate) {
+        return null;
+    }
+    if (typeof column.aggregate === "function") {
+        return column.aggregate(rows);
+    }
+    const value = computeAggregate(column.aggregate, column, rows);
+    return value === null
+        ? null
+        : value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+}
@@ -6,10 +6,50 @@
  * @author 김영진 (ehfuse@gmail.com)
  */
 
+// theme.components.MuiVirtualDataTable 타입 확장
+import "./themeAugmentation";
+
 export { VirtualDataTable } from "./VirtualDataTable";
+export { virtualDataTableClasses } from "./virtualDataTableClasses";
+export { downloadTableData, exportTableData } from "./export";
+export { getGroupKey } from "./grouping";
+export { useVirtualDataTable } from "./useVirtualDataTable";
 export type {
+    CellEditorType,
+    ColumnFilter,
+    ColumnFilterValue,
+    ColumnVisibility,
     DataColumn,
+    EditCellParams,
+    FilterModel,
+    FilterOption,
+    GroupAggregate,
+    HeaderGroup,
+    LoadMoreController,
+    LoadMoreStatus,
+    LoadPreviousController,
+    RowGroup,
+    RowId,
+    RowSelectionState,
+    ScrollToRowOptions,
     SortDirection,
+    SortModel,
+    SortModelItem,
     SortableFilter,
+    TableExportOptions,
+    TableLayoutState,
+    TableScrollState,
+    TableStateStorage,
+    TreeDataState,
+    TreeNode,
+    TreeRowInfo,
+    UseVirtualDataTableOptions,
+    UseVirtualDataTableResult,
+    VirtualDataTableClassKey,
+    VirtualDataTableHandle,
+    VirtualDataTableLocaleText,
     VirtualDataTableProps,
+    VirtualDataTableRowProps,
+    VirtualDataTableThemeProps,
+    VisibleRange,
 } from "./types";
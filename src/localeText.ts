@@ -0,0 +1,85 @@
+/**
+ * localeText.ts - 테이블이 표시하는 기본 문구
+ *
+ * MIT License
+ *
+ * Copyright (c) 2025 KIM YOUNG JIN (ehfuse@gmail.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import type { VirtualDataTableLocaleText } from "./types";
+
+/** 모든 항목을 채운 문구 */
+export type ResolvedLocaleText = Required<VirtualDataTableLocaleText>;
+
+/** 기본 문구 (localeText 로 지정하지 않은 항목에 쓴다) */
+export const DEFAULT_LOCALE_TEXT: ResolvedLocaleText = {
+    loading: "Loading",
+    loadingMore: "Loading more…",
+    loadMoreError: "Failed to load more rows",
+    loadPreviousError: "Failed to load previous rows",
+    retry: "Retry",
+    selectRow: "Select row",
+    selectAllRows: "Select all {count} rows",
+    selectAllLoadedRows: "Select all {count} loaded rows",
+    expandRow: "Expand row",
+    collapseRow: "Collapse row",
+    expandTreeRow: "Expand",
+    collapseTreeRow: "Collapse",
+    chooseColumns: "Choose columns",
+    columns: "Columns",
+    showAllColumns: "Show all",
+    filter: "Filter",
+    filterOperator: "Operator",
+    filterContains: "Contains",
+    filterEquals: "Equals",
+    filterValue: "Value",
+    filterAll: "All",
+    filterMin: "Min",
+    filterMax: "Max",
+    filterFrom: "From",
+    filterTo: "To",
+    filterClear: "Clear",
+    invalidNumber: "Enter a valid number",
+    saveFailed: "Save failed",
+};
+
+/** 지정한 문구를 기본 문구 위에 덮어쓴다. (undefined 항목은 기본 문구를 쓴다) */
+export function resolveLocaleText(
+    localeText: VirtualDataTableLocaleText | undefined,
+): ResolvedLocaleText {
+    const resolved = { ...DEFAULT_LOCALE_TEXT };
+    if (localeText) {
+        (Object.keys(localeText) as (keyof ResolvedLocaleText)[]).forEach(
+            (key) => {
+                const text = localeText[key];
+                if (text !== undefined) {
+                    resolved[key] = text;
+                }
+            },
+        );
+    }
+    return resolved;
+}
+
+/** 문구의 {count} 를 행 수로 바꾼다. */
+export function formatCountText(text: string, count: number): string {
+    return text.replace(/\{count\}/g, String(count));
+}
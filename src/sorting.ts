@@ -0,0 +1,147 @@
+/**
+ * sorting.ts - 클라이언트 정렬
+ *
+ * MIT License
+ *
+ * Copyright (c) 2025 KIM YOUNG JIN (ehfuse@gmail.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { getFieldValue } from "./columns";
+import type { DataColumn, SortModel } from "./types";
+
+/** 컬럼의 정렬 기준 값 (sortValue 가 없으면 id 필드 값) */
+export function getSortValue<T>(column: DataColumn<T>, item: T): unknown {
+    return column.sortValue
+        ? column.sortValue(item)
+        : getFieldValue(item, column);
+}
+
+/**
+ * 정렬 값 비교 (오름차순 기준)
+ * - 숫자/Date/boolean 은 값으로, 문자열은 Intl.Collator(로케일 인식, 숫자 자연 정렬)로 비교한다.
+ * - 종류가 다르면 문자열로 바꿔 비교한다.
+ */
+export function compareSortValues(
+    a: unknown,
+    b: unknown,
+    collator: Intl.Collator,
+): number {
+    if (typeof a === "number" && typeof b === "number") {
+        return a - b;
+    }
+    if (a instanceof Date && b instanceof Date) {
+        return a.getTime() - b.getTime();
+    }
+    if (typeof a === "boolean" && typeof b === "boolean") {
+        return a === b ? 0 : a ? 1 : -1;
+    }
+    return collator.compare(String(a), String(b));
+}
+
+/**
+ * 정렬 모델 순서(우선순위)대로 행을 정렬한 새 배열을 반환한다.
+ * 빈 값(null/undefined/"")은 방향과 관계없이 항상 뒤로 보내고, 비교 결과가 같으면 원래 순서를 유지한다.
+ */
+export function sortRows<T>(
+    rows: T[],
+    sortModel: SortModel,
+    columns: DataColumn<T>[],
+    collator: Intl.Collator,
+): T[] {
+    const sorters = sortModel
+        .map((sortItem) => ({
+            column: columns.find((col) => String(col.id) === sortItem.columnId),
+            sign: sortItem.direction === "desc" ? -1 : 1,
+        }))
+        .filter(
+            (sorter): sorter is { column: DataColumn<T>; sign: 1 | -1 } =>
+                !!sorter.column,
+        );
+    if (sorters.length === 0) {
+        return rows;
+    }
+
+    const isEmpty = (value: unknown) =>
+        value === null || value === undefined || value === "";
+
+    return rows
+        .map((item, index) => ({ item, index }))
+        .sort((a, b) => {
+            for (const { column, sign } of sorters) {
+                let result: number;
+                if (column.sortComparator) {
+                    result = column.sortComparator(a.item, b.item) * sign;
+                } else {
+                    const aValue = getSortValue(column, a.item);
+                    const bValue = getSortValue(column, b.item);
+                    if (isEmpty(aValue) || isEmpty(bValue)) {
+                        result =
+                            isEmpty(aValue) === isEmpty(bValue)
+                                ? 0
+                                : isEmpty(aValue)
+                                  ? 1
+                                  : -1;
+                    } else {
+                        result =
+                            compareSortValues(aValue, bValue, collator) * sign;
+                    }
+                }
+                if (result !== 0) {
+                    return result;
+                }
+            }
+            return a.index - b.index;
+        })
+        .map(({ item }) => item);
+}
+
+/**
+ * 헤더 클릭으로 바뀐 정렬 모델을 계산한다.
+ * - 일반 클릭: 해당 컬럼 하나로 정렬 (같은 컬럼이 오름차순이면 내림차순으로 전환)
+ * - multi(Shift 클릭): 모델에 있으면 방향만 전환, 없으면 오름차순으로 뒤에 추가
+ */
+export function getNextSortModel(
+    sortModel: SortModel,
+    columnId: string,
+    multi: boolean,
+): SortModel {
+    const existing = sortModel.find((item) => item.columnId === columnId);
+
+    if (multi) {
+        if (existing) {
+            return sortModel.map((item) =>
+                item.columnId === columnId
+                    ? {
+                          ...item,
+                          direction: item.direction === "asc" ? "desc" : "asc",
+                      }
+                    : item,
+            );
+        }
+        return [...sortModel, { columnId, direction: "asc" }];
+    }
+
+    const isOnlyAsc =
+        sortModel.length === 1 &&
+        existing !== undefined &&
+        existing.direction === "asc";
+    return [{ columnId, direction: isOnlyAsc ? "desc" : "asc" }];
+}
@@ -0,0 +1,129 @@
+/**
+ * tableState.ts - 테이블 레이아웃 상태 저장/복원
+ *
+ * MIT License
+ *
+ * Copyright (c) 2025 KIM YOUNG JIN (ehfuse@gmail.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import type {
+    DataColumn,
+    SortModel,
+    TableLayoutState,
+    TableStateStorage,
+} from "./types";
+
+// 저장 형식 버전 — 형식이 바뀌면 올리고, 버전이 다른 저장값은 버린다.
+const TABLE_STATE_VERSION = 1;
+
+interface StoredTableState extends Partial<TableLayoutState> {
+    version: number;
+}
+
+/** 기본 저장소 (localStorage, 브라우저가 아니면 undefined) */
+export function getDefaultTableStateStorage(): TableStateStorage | undefined {
+    if (typeof window === "undefined") {
+        return undefined;
+    }
+    try {
+        return window.localStorage;
+    } catch {
+        // 샌드박스 iframe 등 저장소 접근이 막힌 환경
+        return undefined;
+    }
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * 저장된 레이아웃 상태를 읽는다.
+ * 버전이 다르거나 형식이 깨진 값은 무시하고, 지금 없는 컬럼 id 는 걸러낸다.
+ * (새로 추가된 컬럼은 저장값이 없으므로 컬럼 정의의 기본값을 따른다)
+ * 컬럼이 아직 없으면(불러오는 중 등) 걸러내지 않고 모두 남겨, 컬럼이 들어왔을 때 적용되게 한다.
+ */
+export function loadTableState<T>(
+    storage: TableStateStorage | undefined,
+    key: string,
+    columns: DataColumn<T>[],
+): Partial<TableLayoutState> {
+    let stored: unknown;
+    try {
+        const raw = storage?.getItem(key);
+        stored = raw ? JSON.parse(raw) : undefined;
+    } catch {
+        return {};
+    }
+    if (!isPlainObject(stored) || stored.version !== TABLE_STATE_VERSION) {
+        return {};
+    }
+
+    const columnIds = new Set(columns.map((col) => String(col.id)));
+    const hasColumn = (id: string) => columns.length === 0 || columnIds.has(id);
+    const state: Partial<TableLayoutState> = {};
+
+    if (Array.isArray(stored.sortModel)) {
+        state.sortModel = (stored.sortModel as SortModel).filter(
+            (item) =>
+                isPlainObject(item) &&
+                hasColumn(item.columnId) &&
+                (item.direction === "asc" || item.direction === "desc"),
+        );
+    }
+    if (isPlainObject(stored.columnWidths)) {
+        state.columnWidths = Object.fromEntries(
+            Object.entries(stored.columnWidths).filter(
+                ([id, width]) =>
+                    hasColumn(id) &&
+                    typeof width === "number" &&
+                    Number.isFinite(width),
+            ),
+        ) as Record<string, number>;
+    }
+    if (Array.isArray(stored.columnOrder)) {
+        state.columnOrder = stored.columnOrder.filter(
+            (id): id is string => typeof id === "string" && hasColumn(id),
+        );
+    }
+    if (isPlainObject(stored.columnVisibility)) {
+        state.columnVisibility = Object.fromEntries(
+            Object.entries(stored.columnVisibility).filter(
+                ([id, visible]) =>
+                    hasColumn(id) && typeof visible === "boolean",
+            ),
+        ) as Record<string, boolean>;
+    }
+    return state;
+}
+
+/** 레이아웃 상태를 저장한다. (저장소 용량 초과 등 쓰기 오류는 무시) */
+export function saveTableState(
+    storage: TableStateStorage | undefined,
+    key: string,
+    state: TableLayoutState,
+): void {
+    const stored: StoredTableState = { version: TABLE_STATE_VERSION, ...state };
+    try {
+        storage?.setItem(key, JSON.stringify(stored));
+    } catch {
+        // 저장하지 못해도 테이블 동작에는 영향이 없다.
+    }
+}
@@ -0,0 +1,375 @@
+/**
+ * testing.tsx - 테스트 유틸리티 (@ehfuse/mui-virtual-data-table/testing, React 18 이상)
+ *
+ * MIT License
+ *
+ * Copyright (c) 2025 KIM YOUNG JIN (ehfuse@gmail.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import React, { useMemo } from "react";
+import { createRoot } from "react-dom/client";
+import * as ReactDOMTestUtils from "react-dom/test-utils";
+import { VirtuosoMockContext } from "react-virtuoso";
+import type { RowId } from "./types";
+
+// React 18.3 부터는 react 의 act 를 쓰고, 그 전 18.x 에서는 react-dom/test-utils 의 act 를 쓴다.
+const act: typeof ReactDOMTestUtils.act =
+    (React as { act?: typeof ReactDOMTestUtils.act }).act ??
+    ReactDOMTestUtils.act;
+
+// 테스트 환경 기본 뷰포트 (jsdom 은 레이아웃을 계산하지 않으므로 Virtuoso 에 크기를 직접 알려 준다)
+const DEFAULT_VIEWPORT_HEIGHT = 600;
+const DEFAULT_ITEM_HEIGHT = 50;
+// 드래그로 보는 이동 거리 기본값 (테이블의 클릭/드래그 판별 기준 5px 보다 크게)
+const DEFAULT_DRAG_DISTANCE_PX = 20;
+// 끝까지 스크롤할 때 쓰는 scrollTop (Virtuoso 가 목록 끝으로 잘라 쓴다)
+const END_SCROLL_TOP = 1_000_000_000;
+
+/** 테스트용 가상 뷰포트 크기 */
+export interface TestViewportOptions {
+    viewportHeight?: number; // 스크롤 영역 높이 (px, 기본값: 600)
+    itemHeight?: number; // 행 높이 (px, 기본값: 50 — 테이블 rowHeight 와 맞춘다)
+}
+
+/** renderVirtualDataTable 옵션 */
+export interface RenderVirtualDataTableOptions extends TestViewportOptions {
+    container?: HTMLElement; // 렌더링할 요소 (기본값: document.body 에 붙인 새 div)
+}
+
+/** renderVirtualDataTable 반환값 */
+export interface RenderedVirtualDataTable {
+    container: HTMLElement;
+    rerender: (ui: React.ReactElement) => void; // 같은 뷰포트로 다시 렌더링
+    unmount: () => void; // 언마운트하고 직접 만든 container 는 제거
+}
+
+/** 드래그 시뮬레이션 옵션 */
+export interface DragOptions {
+    dx?: number; // 가로 이동 거리 (px, 기본값: 20)
+    dy?: number; // 세로 이동 거리 (px, 기본값: 0)
+}
+
+/** 테이블이 쓰는 브라우저 API 중 jsdom 에 없는 것(ResizeObserver)을 빈 구현으로 채운다. */
+export function setupTableTestEnvironment(): void {
+    const globalScope = globalThis as typeof globalThis & {
+        IS_REACT_ACT_ENVIRONMENT?: boolean;
+    };
+    globalScope.IS_REACT_ACT_ENVIRONMENT = true;
+    if (typeof globalScope.ResizeObserver === "undefined") {
+        globalScope.ResizeObserver = class {
+            observe() {}
+            unobserve() {}
+            disconnect() {}
+        } as unknown as typeof ResizeObserver;
+    }
+}
+
+/**
+ * Virtuoso 에 뷰포트/행 높이를 고정으로 알려 jsdom 에서도 행이 렌더링되게 한다.
+ * Testing Library 의 render(ui, { wrapper }) 에 넘겨 쓸 수 있다.
+ */
+export function TableTestViewport({
+    viewportHeight = DEFAULT_VIEWPORT_HEIGHT,
+    itemHeight = DEFAULT_ITEM_HEIGHT,
+    children,
+}: TestViewportOptions & { children?: React.ReactNode }) {
+    const value = useMemo(
+        () => ({ viewportHeight, itemHeight }),
+        [viewportHeight, itemHeight],
+    );
+    return (
+        <VirtuosoMockContext.Provider value={value}>
+            {children}
+        </VirtuosoMockContext.Provider>
+    );
+}
+
+/** 뷰포트 크기를 고정해 렌더링한다. (Testing Library 없이 쓸 수 있는 최소 render) */
+export function renderVirtualDataTable(
+    ui: React.ReactElement,
+    {
+        viewportHeight,
+        itemHeight,
+        container: containerOption,
+    }: RenderVirtualDataTableOptions = {},
+): RenderedVirtualDataTable {
+    setupTableTestEnvironment();
+    const container = containerOption ?? document.createElement("div");
+    if (!containerOption) {
+        document.body.appendChild(container);
+    }
+    const root = createRoot(container);
+    const render = (element: React.ReactElement) => {
+        act(() => {
+            root.render(
+                <TableTestViewport
+                    viewportHeight={viewportHeight}
+                    itemHeight={itemHeight}
+                >
+                    {element}
+                </TableTestViewport>,
+            );
+        });
+    };
+    render(ui);
+
+    return {
+        container,
+        rerender: render,
+        unmount: () => {
+            act(() => {
+                root.unmount();
+            });
+            if (!containerOption) {
+                container.remove();
+            }
+        },
+    };
+}
+
+/** 속성 셀렉터 값 이스케이프 */
+function escapeAttributeValue(value: RowId): string {
+    return String(value).replace(/["\\]/g, "\\$&");
+}
+
+/** data-row-id 로 렌더링된 본문 행을 찾는다. (가상화로 화면 밖 행은 없을 수 있다) */
+export function queryRowById(
+    container: ParentNode,
+    rowId: RowId,
+): HTMLTableRowElement | null {
+    return container.querySelector<HTMLTableRowElement>(
+        `tbody tr[data-row-id="${escapeAttributeValue(rowId)}"]`,
+    );
+}
+
+/** data-row-id 로 본문 행을 찾고, 없으면 오류를 던진다. */
+export function getRowById(
+    container: ParentNode,
+    rowId: RowId,
+): HTMLTableRowElement {
+    const row = queryRowById(container, rowId);
+    if (!row) {
+        throw new Error(
+            `Unable to find a row with data-row-id "${rowId}". ` +
+                "It may be outside the rendered range; raise viewportHeight or scroll first.",
+        );
+    }
+    return row;
+}
+
+/** 렌더링된 본문 행의 data-row-id 목록 (화면 순서) */
+export function getRenderedRowIds(container: ParentNode): string[] {
+    return Array.from(
+        container.querySelectorAll<HTMLTableRowElement>(
+            "tbody tr[data-row-id]",
+        ),
+        (row) => row.getAttribute("data-row-id") ?? "",
+    );
+}
+
+/** 행의 본문 셀을 컬럼 id 로 찾는다. */
+export function getCell(
+    container: ParentNode,
+    rowId: RowId,
+    columnId: string,
+): HTMLTableCellElement {
+    const cell = getRowById(
+        container,
+        rowId,
+    ).querySelector<HTMLTableCellElement>(
+        `td[data-column-id="${escapeAttributeValue(columnId)}"]`,
+    );
+    if (!cell) {
+        throw new Error(
+            `Unable to find the "${columnId}" cell in row "${rowId}".`,
+        );
+    }
+    return cell;
+}
+
+/** 컬럼 헤더 셀을 컬럼 id 로 찾는다. */
+export function getHeaderCell(
+    container: ParentNode,
+    columnId: string,
+): HTMLTableCellElement {
+    const cell = container.querySelector<HTMLTableCellElement>(
+        `thead th[data-column-id="${escapeAttributeValue(columnId)}"]`,
+    );
+    if (!cell) {
+        throw new Error(
+            `Unable to find a header cell for column "${columnId}". Hidden columns are not rendered.`,
+        );
+    }
+    return cell;
+}
+
+/** 하단 합계 행 셀을 컬럼 id 로 찾는다. (footerColSpan 으로 덮인 컬럼은 셀이 없다) */
+export function getFooterCell(
+    container: ParentNode,
+    columnId: string,
+): HTMLTableCellElement {
+    const cell = container.querySelector<HTMLTableCellElement>(
+        `tfoot td[data-column-id="${escapeAttributeValue(columnId)}"]`,
+    );
+    if (!cell) {
+        throw new Error(
+            `Unable to find a footer cell for column "${columnId}". ` +
+                "The footer may be off, or the column may be covered by another column's footerColSpan.",
+        );
+    }
+    return cell;
+}
+
+/** 마우스 이벤트를 act 안에서 보낸다. */
+function fireMouse(
+    target: Element,
+    type: string,
+    init: MouseEventInit = {},
+): void {
+    act(() => {
+        target.dispatchEvent(
+            new MouseEvent(type, {
+                bubbles: true,
+                cancelable: true,
+                view: window,
+                ...init,
+            }),
+        );
+    });
+}
+
+/** 제자리 클릭 (mousedown → mouseup → click 을 같은 좌표에서) */
+function clickInPlace(target: Element, init: MouseEventInit = {}): void {
+    const position = { clientX: 0, clientY: 0, ...init };
+    fireMouse(target, "mousedown", position);
+    fireMouse(target, "mouseup", position);
+    fireMouse(target, "click", position);
+}
+
+/**
+ * 헤더 정렬을 클릭한다. (shiftKey: 다중 정렬에 추가/전환)
+ * 정렬할 수 없는 컬럼이면 오류를 던진다.
+ */
+export function clickSort(
+    container: ParentNode,
+    columnId: string,
+    { shiftKey = false }: { shiftKey?: boolean } = {},
+): void {
+    const trigger = getHeaderCell(container, columnId).querySelector(
+        ".MuiTableSortLabel-root",
+    );
+    if (!trigger) {
+        throw new Error(`Column "${columnId}" is not sortable.`);
+    }
+    clickInPlace(trigger, { shiftKey });
+}
+
+/** 행을 클릭한다. (onRowClick/활성 행/다중 선택 — Ctrl/Cmd/Shift 는 init 으로 지정) */
+export function clickRow(
+    container: ParentNode,
+    rowId: RowId,
+    init: MouseEventInit = {},
+): void {
+    clickInPlace(getRowById(container, rowId), init);
+}
+
+/**
+ * 행 위에서 끌었다 놓는다. 이동 거리가 클릭 판별 기준보다 크면
+ * 테이블은 이를 드래그로 보고 onRowClick/선택을 실행하지 않는다.
+ */
+export function dragRow(
+    container: ParentNode,
+    rowId: RowId,
+    { dx = DEFAULT_DRAG_DISTANCE_PX, dy = 0 }: DragOptions = {},
+): void {
+    const row = getRowById(container, rowId);
+    const end = { clientX: dx, clientY: dy };
+    fireMouse(row, "mousedown", { clientX: 0, clientY: 0 });
+    fireMouse(row, "mousemove", end);
+    fireMouse(row, "mouseup", end);
+    fireMouse(row, "click", end);
+}
+
+/** Virtuoso 스크롤 컨테이너 */
+function getScroller(container: ParentNode): HTMLElement {
+    const scroller = container.querySelector<HTMLElement>(
+        "[data-virtuoso-scroller]",
+    );
+    if (!scroller) {
+        throw new Error("Unable to find the table scroll container.");
+    }
+    return scroller;
+}
+
+/**
+ * 스크롤 위치를 바꾸고 scroll 이벤트를 보낸다.
+ * jsdom 의 scrollTop 은 항상 0 이므로 요소에 값을 직접 정의한다.
+ */
+export function scrollTable(container: ParentNode, scrollTop: number): void {
+    const scroller = getScroller(container);
+    Object.defineProperty(scroller, "scrollTop", {
+        configurable: true,
+        get: () => scrollTop,
+        set: () => {},
+    });
+    act(() => {
+        scroller.dispatchEvent(new Event("scroll"));
+    });
+}
+
+/**
+ * 목록 끝까지 스크롤해 끝 도달(무한 스크롤 onLoadMore)을 일으킨다.
+ * onLoadMore 는 렌더링 범위가 끝에서 loadMoreThreshold 행 안쪽일 때 호출된다.
+ */
+export function triggerEndReached(container: ParentNode): void {
+    scrollTable(container, END_SCROLL_TOP);
+}
+
+/** 맨 위로 스크롤해 위쪽 로드(onLoadPrevious)를 일으킨다. */
+export function triggerStartReached(container: ParentNode): void {
+    scrollTable(container, 0);
+}
+
+/** 하단 추가 로드 행의 재시도 버튼을 누른다. (onLoadMore 실패 후) */
+export function retryLoadMore(container: ParentNode): void {
+    const button = container.querySelector<HTMLButtonElement>(
+        ".vdt-load-more-row [role='alert'] button",
+    );
+    if (!button) {
+        throw new Error(
+            "Unable to find the load-more Retry button. It appears only after onLoadMore fails.",
+        );
+    }
+    clickInPlace(button);
+}
+
+/** 위쪽 로드 실패 표시의 재시도 버튼을 누른다. (onLoadPrevious 실패 후) */
+export function retryLoadPrevious(container: ParentNode): void {
+    const button = container.querySelector<HTMLButtonElement>(
+        ".vdt-load-previous-error button",
+    );
+    if (!button) {
+        throw new Error(
+            "Unable to find the load-previous Retry button. It appears only after onLoadPrevious fails.",
+        );
+    }
+    clickInPlace(button);
+}
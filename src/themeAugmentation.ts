@@ -0,0 +1,54 @@
+/**
+ * themeAugmentation.ts - MUI 테마 타입 확장 (theme.components.MuiVirtualDataTable)
+ *
+ * MIT License
+ *
+ * Copyright (c) 2025 KIM YOUNG JIN (ehfuse@gmail.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import type {
+    ComponentsOverrides,
+    ComponentsProps,
+} from "@mui/material/styles";
+import type {
+    VirtualDataTableClassKey,
+    VirtualDataTableThemeProps,
+} from "./types";
+
+// createTheme({ components: { MuiVirtualDataTable: { defaultProps, styleOverrides } } }) 를 타입 검사한다.
+declare module "@mui/material/styles" {
+    interface ComponentNameToClassKey {
+        MuiVirtualDataTable: VirtualDataTableClassKey;
+    }
+
+    interface ComponentsPropsList {
+        MuiVirtualDataTable: VirtualDataTableThemeProps;
+    }
+
+    interface Components<Theme = unknown> {
+        MuiVirtualDataTable?: {
+            defaultProps?: ComponentsProps["MuiVirtualDataTable"];
+            styleOverrides?: ComponentsOverrides<Theme>["MuiVirtualDataTable"];
+        };
+    }
+}
+
+export {};
@@ -0,0 +1,158 @@
+/**
+ * treeData.ts - 트리 데이터 (계층 행) 구성
+ *
+ * MIT License
+ *
+ * Copyright (c) 2025 KIM YOUNG JIN (ehfuse@gmail.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import type { RowId, TreeNode } from "./types";
+
+/**
+ * data 로 트리 노드를 만든다.
+ * - getChildRows: data 는 최상위 행이고 자식은 getChildRows 로 내려간다.
+ *   (행 식별자 기본값은 형제 순번 경로 — 예: "0/3/1". 다른 부모의 행이 펼쳐지거나 자식이 불러와져도 바뀌지 않는다)
+ * - getParentId: data 는 평평한 전체 행이고, 부모를 찾을 수 없는 행은 최상위 행이 된다.
+ * 형제 순서는 data 순서를 따른다.
+ */
+export function buildTreeNodes<T>(
+    data: T[],
+    options: {
+        getChildRows?: (item: T) => T[] | undefined;
+        getParentId?: (item: T) => RowId | null | undefined;
+        getRowId?: (item: T, index: number) => RowId;
+    },
+): TreeNode<T>[] {
+    const { getChildRows, getParentId, getRowId } = options;
+    const resolveId = (item: T, index: number): RowId =>
+        getRowId ? getRowId(item, index) : index;
+
+    if (getChildRows) {
+        // getRowId 에는 전위 순회 순번을 넘긴다.
+        let nextIndex = 0;
+        const build = (items: T[], parentPath: string): TreeNode<T>[] =>
+            items.map((item, siblingIndex) => {
+                const path = parentPath
+                    ? `${parentPath}/${siblingIndex}`
+                    : String(siblingIndex);
+                const rowId = getRowId ? getRowId(item, nextIndex) : path;
+                nextIndex += 1;
+                const childRows = getChildRows(item);
+                return {
+                    item,
+                    rowId,
+                    children: childRows ? build(childRows, path) : undefined,
+                };
+            });
+        return build(data, "");
+    }
+
+    const nodes = data.map((item, index): TreeNode<T> => ({
+        item,
+        rowId: resolveId(item, index),
+    }));
+    const nodeById = new Map<RowId, TreeNode<T>>();
+    nodes.forEach((node) => nodeById.set(node.rowId, node));
+    const roots: TreeNode<T>[] = [];
+    nodes.forEach((node) => {
+        const parentId = getParentId?.(node.item);
+        const parent =
+            parentId === null || parentId === undefined
+                ? undefined
+                : nodeById.get(parentId);
+        if (parent && parent !== node) {
+            if (!parent.children) {
+                parent.children = [];
+            }
+            parent.children.push(node);
+        } else {
+            roots.push(node);
+        }
+    });
+    return roots;
+}
+
+/** 모든 노드를 전위 순회 순서로 모은다. */
+export function collectTreeNodes<T>(nodes: TreeNode<T>[]): TreeNode<T>[] {
+    const result: TreeNode<T>[] = [];
+    const visit = (list: TreeNode<T>[]) => {
+        list.forEach((node) => {
+            result.push(node);
+            if (node.children) {
+                visit(node.children);
+            }
+        });
+    };
+    visit(nodes);
+    return result;
+}
+
+/**
+ * 조건에 맞는 노드와 그 조상만 남긴다.
+ * 조건에 맞는 노드라도 자식은 조건에 맞는(또는 맞는 자손이 있는) 자식만 남는다.
+ */
+export function filterTreeNodes<T>(
+    nodes: TreeNode<T>[],
+    matches: (item: T) => boolean,
+): TreeNode<T>[] {
+    return nodes.flatMap((node) => {
+        const children = node.children
+            ? filterTreeNodes(node.children, matches)
+            : undefined;
+        if (!matches(node.item) && !children?.length) {
+            return [];
+        }
+        return [{ ...node, children }];
+    });
+}
+
+/** 형제 단계마다 sortSiblings 로 정렬한다. (부모-자식 관계는 유지) */
+export function sortTreeNodes<T>(
+    nodes: TreeNode<T>[],
+    sortSiblings: (items: T[]) => T[],
+): TreeNode<T>[] {
+    const nodeByItem = new Map<T, TreeNode<T>>();
+    nodes.forEach((node) => nodeByItem.set(node.item, node));
+    return sortSiblings(nodes.map((node) => node.item)).map((item) => {
+        const node = nodeByItem.get(item) as TreeNode<T>;
+        return node.children
+            ? { ...node, children: sortTreeNodes(node.children, sortSiblings) }
+            : node;
+    });
+}
+
+/** 펼친 노드의 자식까지만 전위 순회 순서로 펴서 표시 행 목록을 만든다. */
+export function flattenTreeNodes<T>(
+    nodes: TreeNode<T>[],
+    expandedIds: ReadonlySet<RowId>,
+): { node: TreeNode<T>; depth: number }[] {
+    const result: { node: TreeNode<T>; depth: number }[] = [];
+    const visit = (list: TreeNode<T>[], depth: number) => {
+        list.forEach((node) => {
+            result.push({ node, depth });
+            if (node.children && expandedIds.has(node.rowId)) {
+                visit(node.children, depth + 1);
+            }
+        });
+    };
+    visit(nodes, 0);
+    return result;
+}
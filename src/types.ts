@@ -28,6 +28,60 @@ import React from "react";
 import type { SxProps, Theme } from "@mui/material";
 import { OverlayScrollbarProps } from "@ehfuse/overlay-scrollbar";
 
+/** select 필터 선택지 */
+export interface FilterOption {
+    value: string | number | boolean;
+    label?: string; // 표시 텍스트 (기본값: value)
+}
+
+/**
+ * 컬럼 필터 정의 (헤더 필터 아이콘/팝오버 종류)
+ * getValue 로 필터 기준 값을 바꿀 수 있다. (기본값: id 필드 값)
+ */
+export type ColumnFilter<T> =
+    | {
+          type: "text";
+          operator?: "contains" | "equals"; // 기본 비교 방식 (기본값: "contains")
+          getValue?: (item: T) => unknown;
+      }
+    | { type: "number"; getValue?: (item: T) => unknown }
+    | { type: "date"; getValue?: (item: T) => unknown }
+    | {
+          type: "select";
+          options: FilterOption[];
+          multiple?: boolean; // 다중 선택 여부 (기본값: false)
+          getValue?: (item: T) => unknown;
+      };
+
+/** 컬럼 하나에 적용된 필터 값 */
+export type ColumnFilterValue =
+    | { type: "text"; operator: "contains" | "equals"; value: string }
+    | { type: "number"; min?: number; max?: number } // 양 끝 포함
+    | { type: "date"; from?: string; to?: string } // YYYY-MM-DD, 양 끝 포함
+    | { type: "select"; values: FilterOption["value"][] };
+
+/** 컬럼 id 별 필터 값 (모든 조건을 AND 로 적용) */
+export type FilterModel = Record<string, ColumnFilterValue>;
+
+/** 기본 셀 편집기 종류 */
+export type CellEditorType = "text" | "number" | "select" | "date" | "checkbox";
+
+/** renderEditCell 에 전달되는 편집 상태와 조작 함수 */
+export interface EditCellParams<T> {
+    item: T;
+    index: number;
+    rowId: RowId;
+    columnId: string;
+    value: unknown; // 편집 중인 값
+    error: string | null; // validate 오류 메시지
+    setValue: (value: unknown) => void;
+    commit: (value?: unknown) => void; // 검증 후 저장 (value 를 넘기면 그 값으로 저장)
+    cancel: () => void;
+}
+
+/** 그룹 행 집계 함수 (숫자로 변환할 수 없는 값은 건너뜀, count 는 그룹 행 수) */
+export type GroupAggregate = "count" | "sum" | "avg" | "min" | "max";
+
 /**
  * 테이블 컬럼 정의 인터페이스
  */
@@ -39,19 +93,180 @@ export interface DataColumn<T> {
     align?: "left" | "center" | "right"; // 텍스트 정렬 방향
     style?: React.CSSProperties; // 추가 스타일
     render?: (item: T, index: number) => React.ReactNode; // 커스텀 렌더링 함수
-    group?: string; // 그룹 헤더명
+    sortValue?: (item: T) => unknown; // 클라이언트 정렬 기준 값 (기본값: id 필드 값)
+    sortComparator?: (a: T, b: T) => number; // 클라이언트 정렬 비교 함수 (오름차순 기준, 지정 시 sortValue 보다 우선)
+    filter?: ColumnFilter<T>; // 헤더 필터 정의 (지정 시 헤더에 필터 아이콘 표시)
+    editable?: boolean | ((item: T) => boolean); // 셀 편집 가능 여부 (더블클릭 또는 활성 행에서 Enter 로 편집 시작)
+    editor?: CellEditorType; // 기본 편집기 종류 (기본값: "text")
+    editOptions?: FilterOption[]; // select 편집기 선택지
+    getEditValue?: (item: T) => unknown; // 편집 시작 값 (기본값: id 필드 값)
+    validate?: (value: unknown, item: T) => string | null | undefined; // 값 검증 (오류 메시지를 반환하면 저장하지 않고 셀에 표시)
+    renderEditCell?: (params: EditCellParams<T>) => React.ReactNode; // 커스텀 편집기 렌더링 함수 (지정 시 editor 보다 우선)
+    group?: string | string[]; // 그룹 헤더명 (배열이면 바깥 그룹부터 중첩된 그룹 경로, 예: ["매출", "상반기"])
+    aggregate?: GroupAggregate | ((rows: T[]) => React.ReactNode); // groupBy 사용 시 그룹 행에 표시할 집계 (함수면 그룹 행 배열 전달)
+    exportValue?: (item: T) => unknown; // 내보내기/복사 값 (기본값: id 필드 값, render 결과는 쓰지 않음)
     footer?: (data: T[]) => React.ReactNode; // 하단 합계(tfoot) 셀 렌더링 함수 (전체 표시 데이터 전달)
     footerColSpan?: number; // 하단 합계 셀이 차지할 컬럼 수 (이만큼 뒤 컬럼의 footer 셀은 생략됨)
+    resizable?: boolean; // 헤더 드래그 리사이즈 가능 여부 (기본값: 테이블 resizableColumns)
+    minWidth?: number; // 리사이즈 최소 너비 (px, 기본값: 40)
+    maxWidth?: number; // 리사이즈 최대 너비 (px, 기본값: 제한 없음)
+    pinned?: "left" | "right"; // 가로 스크롤 시 고정할 위치 (고정 컬럼은 해당 쪽 끝으로 모임)
+    reorderable?: boolean; // 헤더 드래그 순서 변경 가능 여부 (기본값: 테이블 reorderableColumns)
+    hideable?: boolean; // 컬럼 선택 메뉴에서 숨길 수 있는지 (false 면 항상 표시, 기본값: true)
+    defaultHidden?: boolean; // columnVisibility 에 값이 없을 때 숨김 여부 (기본값: false)
+}
+
+/** 컬럼 id 별 표시 여부 (false 면 숨김, 값이 없으면 컬럼의 defaultHidden 을 따른다) */
+export type ColumnVisibility = Record<string, boolean>;
+
+/** 행 식별자 타입 (getRowId 반환값, 미지정 시 index) */
+export type RowId = string | number;
+
+/** groupBy 값 조합 하나에 해당하는 행 묶음 */
+export interface RowGroup<T> {
+    key: string; // 그룹 키 (그룹 값 배열의 JSON 문자열)
+    values: unknown[]; // groupBy 컬럼 순서대로의 그룹 값
+    rows: T[];
+}
+
+/** 트리 데이터 노드 (getChildRows/getParentId 로 만든 계층) */
+export interface TreeNode<T> {
+    item: T;
+    rowId: RowId;
+    children?: TreeNode<T>[]; // 자식 노드 (undefined 면 아직 불러오지 않은 자식)
+}
+
+/** 트리 데이터 표시 행 하나의 트리 정보 */
+export interface TreeRowInfo {
+    rowId: RowId;
+    depth: number; // 단계 (최상위 행은 0)
+    expandable: boolean; // 펼칠 수 있는지 (자식이 있거나 onLoadChildren 으로 불러올 수 있음)
+    expanded: boolean;
+    loading: boolean; // onLoadChildren 으로 자식을 불러오는 중인지
+}
+
+/**
+ * 헤더 줄의 셀 하나 — 그룹 헤더(같은 그룹 경로·같은 고정 상태로 연속된 컬럼 묶음) 또는 컬럼 헤더
+ * colSpan 은 columns.length 다.
+ */
+export interface HeaderGroup<T> {
+    group?: string; // 그룹 헤더명 (컬럼 헤더 셀이면 undefined)
+    path: string[]; // 그룹 헤더는 이 그룹까지의 경로, 컬럼 헤더는 컬럼의 전체 그룹 경로
+    columns: DataColumn<T>[]; // 묶인 컬럼 (표시 순서대로, 컬럼 헤더 셀이면 하나)
+    startIndex: number; // 첫 컬럼의 컬럼 index
+    rowSpan: number; // 차지하는 헤더 줄 수 (컬럼 헤더는 그룹 아래 남은 줄을 모두 차지)
 }
 
 /** 정렬 방향 타입 */
 export type SortDirection = "asc" | "desc";
 
+/** 다중 정렬 모델 항목 (배열 순서가 정렬 우선순위) */
+export interface SortModelItem {
+    columnId: string;
+    direction: SortDirection;
+}
+
+export type SortModel = SortModelItem[];
+
 export interface SortableFilter {
     sortBy?: string;
     sortDirection?: SortDirection;
 }
 
+/** 저장/복원되는 테이블 레이아웃 상태 (stateKey) */
+export interface TableLayoutState {
+    sortModel: SortModel;
+    columnWidths: Record<string, number>;
+    columnOrder?: string[];
+    columnVisibility: ColumnVisibility;
+}
+
+/** 레이아웃 상태 저장소 (localStorage 와 같은 모양, 기본값: localStorage) */
+export interface TableStateStorage {
+    getItem: (key: string) => string | null;
+    setItem: (key: string, value: string) => void;
+}
+
+/** 테이블이 표시하는 문구 (지정하지 않은 항목은 기본 영어 문구, {count} 는 행 수로 바뀐다) */
+export interface VirtualDataTableLocaleText {
+    loading?: string; // 로딩 스피너와 스크린 리더 안내 문구 (기본값: "Loading")
+    loadingMore?: string; // 하단 추가 로드 행 문구 (기본값: "Loading more…")
+    loadMoreError?: string; // 추가 로드 실패 문구 — 오류 메시지가 없을 때 표시 (기본값: "Failed to load more rows")
+    loadPreviousError?: string; // 위쪽 로드 실패 문구 — 오류 메시지가 없을 때 표시 (기본값: "Failed to load previous rows")
+    retry?: string; // 추가 로드 재시도 버튼 (기본값: "Retry")
+    selectRow?: string; // 행 선택 체크박스 라벨 (기본값: "Select row")
+    selectAllRows?: string; // 전체 선택 체크박스 라벨 (기본값: "Select all {count} rows")
+    selectAllLoadedRows?: string; // 불러온 행만 선택할 수 있을 때의 전체 선택 라벨 (기본값: "Select all {count} loaded rows")
+    expandRow?: string; // 상세 패널 펼침 버튼 라벨 (기본값: "Expand row")
+    collapseRow?: string; // 상세 패널 접기 버튼 라벨 (기본값: "Collapse row")
+    expandTreeRow?: string; // 트리 행 펼침 버튼 라벨 (기본값: "Expand")
+    collapseTreeRow?: string; // 트리 행 접기 버튼 라벨 (기본값: "Collapse")
+    chooseColumns?: string; // 컬럼 선택 버튼 라벨 (기본값: "Choose columns")
+    columns?: string; // 컬럼 선택 메뉴 라벨 (기본값: "Columns")
+    showAllColumns?: string; // 컬럼 선택 메뉴의 모두 표시 버튼 (기본값: "Show all")
+    filter?: string; // 필터 버튼 라벨 (기본값: "Filter")
+    filterOperator?: string; // 텍스트 필터 비교 방식 (기본값: "Operator")
+    filterContains?: string; // 포함 비교 (기본값: "Contains")
+    filterEquals?: string; // 일치 비교 (기본값: "Equals")
+    filterValue?: string; // 텍스트/단일 선택 필터 입력 (기본값: "Value")
+    filterAll?: string; // 단일 선택 필터의 전체 항목 (기본값: "All")
+    filterMin?: string; // 숫자 필터 최솟값 (기본값: "Min")
+    filterMax?: string; // 숫자 필터 최댓값 (기본값: "Max")
+    filterFrom?: string; // 날짜 필터 시작일 (기본값: "From")
+    filterTo?: string; // 날짜 필터 종료일 (기본값: "To")
+    filterClear?: string; // 필터 초기화 버튼 (기본값: "Clear")
+    invalidNumber?: string; // 숫자 셀 편집 입력 오류 (기본값: "Enter a valid number")
+    saveFailed?: string; // 셀 저장 실패 문구 — 오류 메시지가 없을 때 표시 (기본값: "Save failed")
+}
+
+/** exportTableData 옵션 */
+export interface TableExportOptions {
+    format?: "csv" | "tsv"; // 구분자 형식 (기본값: "csv")
+    includeHeaders?: boolean; // 첫 줄에 컬럼 헤더 포함 (기본값: true)
+    includeGroupHeaders?: boolean; // 컬럼 헤더 위에 그룹 헤더 줄 추가 (기본값: false)
+    bom?: boolean; // 맨 앞에 UTF-8 BOM 추가 — Excel 에서 한글이 깨지지 않도록 (기본값: true)
+}
+
+/** 화면에 보이는 행 범위 (data index, 양 끝 포함, 보이는 행이 없으면 -1) */
+export interface VisibleRange {
+    startIndex: number;
+    endIndex: number;
+}
+
+/** 스크롤 컨테이너 상태 (px) */
+export interface TableScrollState {
+    scrollTop: number;
+    scrollLeft: number;
+    scrollHeight: number;
+    scrollWidth: number;
+    clientHeight: number;
+    clientWidth: number;
+    atTop: boolean;
+    atBottom: boolean;
+}
+
+/** scrollToIndex/scrollToRowId 옵션 */
+export interface ScrollToRowOptions {
+    align?: "start" | "center" | "end"; // 행을 맞출 위치 (기본값: "start")
+    behavior?: "auto" | "smooth"; // 스크롤 방식 (기본값: "auto")
+}
+
+/**
+ * VirtualDataTable ref 로 노출되는 명령형 API
+ * index 는 모두 정렬/필터/그룹이 적용된 표시 데이터 기준이다. (그룹 행/상세 행은 세지 않음)
+ */
+export interface VirtualDataTableHandle<T> {
+    scrollToIndex: (index: number, options?: ScrollToRowOptions) => void; // index 행으로 스크롤
+    scrollToRowId: (rowId: RowId, options?: ScrollToRowOptions) => boolean; // getRowId 로 찾은 행으로 스크롤 (없으면 false)
+    scrollToTop: (behavior?: "auto" | "smooth") => void; // 맨 위로 스크롤
+    getVisibleRange: () => VisibleRange; // 헤더/푸터에 가리지 않고 보이는 행 범위
+    getScrollState: () => TableScrollState; // 현재 스크롤 상태
+    getRow: (index: number) => T | undefined; // index 행 데이터
+    focusRow: (index: number) => void; // index 행을 활성 행으로 만들고 테이블에 포커스
+    resetScroll: () => void; // 가상화 상태를 초기화하고 맨 위/왼쪽으로 이동 (data 를 통째로 바꿨을 때)
+    exportData: (options?: TableExportOptions) => string; // 표시 중인 컬럼과 정렬/필터가 적용된 행(접힌 그룹/트리 행 포함)을 CSV/TSV 로 변환
+}
+
 /**
  * OverlayScrollbarProps에서 children을 제외한 타입
  */
@@ -73,8 +288,8 @@ export interface VDTOverscan {
  * 데이터 기반 가상화 테이블 컴포넌트 Props
  */
 export interface VirtualDataTableProps<T> {
-    data: T[]; // 표시할 데이터 배열
-    totalCount: number; // 총 데이터 개수
+    data: T[]; // 표시할 데이터 배열 (onLoadRange 사용 시 행 index 위치에 둔 희소 배열, 빈 index 는 placeholder 행)
+    totalCount: number; // 총 데이터 개수 (onLoadRange 사용 시 스크롤 높이 기준 행 수)
     loading?: boolean; // 로딩 상태
     columns: DataColumn<T>[]; // 테이블 컬럼 정의
     onRowClick?: (item: T, index: number) => void; // 행 클릭 이벤트 핸들러
@@ -83,19 +298,75 @@ export interface VirtualDataTableProps<T> {
     selectedRowSx?:
         | SxProps<Theme>
         | ((item: T, index: number) => SxProps<Theme>); // 선택 행 스타일 (기본값: 없음)
-    rowHeight?: number; // 행 높이 (px)
+    selectedRowIds?: RowId[]; // 다중 선택 행 식별자 목록 (지정 시 controlled)
+    allRowsSelected?: boolean; // totalCount 전체 행 선택 여부 (selectAllScope="all" 일 때, 지정 시 controlled)
+    onSelectionChange?: (rowIds: RowId[], allRowsSelected: boolean) => void; // 다중 선택 변경 핸들러 (지정 시 다중 선택 활성화)
+    checkboxSelection?: boolean; // 맨 앞 체크박스 선택 컬럼 표시 여부 (기본값: false)
+    selectAllScope?: "loaded" | "all"; // 헤더 전체 선택 범위 (loaded: 불러온 행만, all: totalCount 전체, 기본값: "loaded")
+    activeRowId?: RowId | null; // 키보드 탐색 활성 행 식별자 (지정 시 controlled)
+    onActiveRowChange?: (
+        rowId: RowId | null,
+        item: T | null,
+        index: number,
+    ) => void; // 활성 행 변경 핸들러 (방향키/PageUp/PageDown/Home/End, 행 클릭)
+    rowHeight?: number; // 행 높이 (px, getRowHeight/measureRows 사용 시 추정·최소 높이)
+    getRowHeight?: (item: T, index: number) => number; // 행별 높이 (px, 지정 시 행마다 다른 높이로 렌더링)
+    measureRows?: boolean; // 행 높이를 내용(줄바꿈/이미지 등)에 맞춰 늘리고 실제 높이를 측정 (기본값: false)
     columnHeight?: number; // 컬럼 헤더 높이 (px, 기본값: 56)
-    striped?: string | boolean; // Zebra striping (true: 기본 회색, string: 지정 색상, false: 없음)
+    striped?: string | boolean; // Zebra striping (true: 테마 palette.action.hover, string: 지정 색상, false: 없음)
     rowDivider?: boolean; // 행 구분선 표시 여부 (기본값: true)
     onSort?: (columnId: string, direction: SortDirection) => void; // 정렬 이벤트 핸들러
-    onLoadMore?: (offset: number, limit: number) => void; // 더 많은 데이터 로드 요청 핸들러
+    onLoadMore?: (
+        offset: number,
+        limit: number,
+        signal: AbortSignal,
+    ) => void | Promise<void>; // 더 많은 데이터 로드 요청 핸들러 (Promise 를 반환하면 완료/실패를 추적, 실패 시 하단 행에 재시도 버튼 표시)
+    pageSize?: number; // onLoadMore 한 번에 요청할 행 수 (limit, 기본값: 50)
+    loadMoreThreshold?: number; // 끝에서 이 행 수 안쪽까지 렌더링되면 추가 로드 (기본값: 0)
+    hasMore?: boolean; // 더 불러올 데이터가 있는지 (false 면 onLoadMore 를 호출하지 않음, 기본값: true)
+    onLoadPrevious?: (
+        limit: number,
+        signal: AbortSignal,
+    ) => void | Promise<void>; // 위쪽(이전) 데이터 로드 요청 핸들러 (맨 위에 닿으면 호출, 앞에 붙인 행은 화면 위치를 유지)
+    hasPrevious?: boolean; // 위쪽에 더 불러올 데이터가 있는지 (false 면 onLoadPrevious 를 호출하지 않음, 기본값: true)
+    initialTopMostItemIndex?:
+        | number
+        | { index: number; align?: "start" | "center" | "end" }; // 처음 표시할 때 맨 위에 둘 행 index (마운트 시 한 번만 적용)
+    onLoadRange?: (start: number, end: number) => void | Promise<void>; // 희소(sparse) 모드 범위 로드 요청 핸들러 (start 이상 end 미만, 지정 시 totalCount 전체를 스크롤)
     sortBy?: string; // 현재 정렬 필드
     sortDirection?: SortDirection; // 현재 정렬 방향
+    sortModel?: SortModel; // 다중 정렬 모델 (지정 시 controlled, sortBy/sortDirection 보다 우선)
+    onSortModelChange?: (sortModel: SortModel) => void; // 정렬 모델 변경 핸들러 (Shift 클릭 다중 정렬 포함)
+    sortMode?: "client" | "server"; // client: 테이블이 data 를 직접 정렬, server: 이벤트만 전달 (기본값: onSort/onLoadRange 가 있으면 server)
+    sortLocale?: string | string[]; // 클라이언트 문자열 정렬 로케일 (예: "ko", 기본값: 브라우저 로케일)
+    filterModel?: FilterModel; // 컬럼 필터 모델 (지정 시 controlled)
+    onFilterChange?: (filterModel: FilterModel) => void; // 필터 모델 변경 핸들러
+    filterMode?: "client" | "server"; // client: 테이블이 data 를 직접 필터링, server: 모델만 전달 (기본값: onLoadRange 가 있으면 server, 없으면 client)
+    groupBy?: string | string[]; // 행 그룹 기준 컬럼 id (여러 개면 값 조합별로 그룹)
+    collapsedGroups?: string[]; // 접힌 그룹 키 목록 (지정 시 controlled, 그룹 키는 그룹 값 배열의 JSON 문자열)
+    onCollapsedGroupsChange?: (groupKeys: string[]) => void; // 그룹 펼침/접힘 변경 핸들러
+    renderDetailPanel?: (item: T, index: number) => React.ReactNode; // 행 상세 패널 렌더링 함수 (지정 시 펼침 토글 컬럼 표시)
+    expandedRowIds?: RowId[]; // 상세 패널을 펼친 행 식별자 목록 (지정 시 controlled)
+    onExpandedRowsChange?: (rowIds: RowId[]) => void; // 상세 패널 펼침/접힘 변경 핸들러
+    getChildRows?: (item: T) => T[] | undefined; // 트리 데이터 자식 행 (지정 시 data 는 최상위 행, undefined 는 아직 불러오지 않은 자식)
+    getParentId?: (item: T) => RowId | null | undefined; // 트리 데이터 부모 행 식별자 (지정 시 data 는 평평한 전체 행, getRowId 필요)
+    hasChildRows?: (item: T) => boolean; // 자식이 있는 행인지 (기본값: 불러온 자식이 있거나, getChildRows 가 undefined 를 반환하고 onLoadChildren 이 있으면 true)
+    onLoadChildren?: (item: T) => void | Promise<void>; // 자식을 불러오지 않은 행을 펼칠 때 호출 (로딩 스피너는 Promise 면 끝날 때까지, 아니면 자식이 들어올 때까지 표시)
+    expandedTreeRowIds?: RowId[]; // 펼친 트리 행 식별자 목록 (지정 시 controlled)
+    onExpandedTreeRowsChange?: (rowIds: RowId[]) => void; // 트리 행 펼침/접힘 변경 핸들러
+    treeColumn?: string; // 들여쓰기와 펼침 토글을 표시할 컬럼 id (기본값: 첫 데이터 컬럼)
+    treeIndent?: number; // 트리 단계별 들여쓰기 (px, 기본값: 24)
+    onCellEditCommit?: (
+        rowId: RowId,
+        columnId: string,
+        value: unknown,
+        item: T,
+    ) => void | Promise<void>; // 셀 편집 저장 핸들러 (Promise 를 반환하면 끝날 때까지 새 값을 먼저 표시, 실패 시 되돌리고 오류 표시)
     showPaper?: boolean; // Paper 컴포넌트 표시 여부
     paddingX?: string | number; // 테이블 좌우 패딩 (기본값: "1rem")
     paddingTop?: string | number; // 테이블 상단 패딩 (기본값: 0)
     paddingBottom?: string | number; // 테이블 하단 패딩 (기본값: 0)
-    rowHoverColor?: string; // 행 hover 시 배경색 (기본값: "#000000", 다크 모드에서 밝기만 자동 반전)
+    rowHoverColor?: string; // 행 hover 시 배경색 (기본값: 테마 palette.text.primary, 다크 모드에서는 밝은 색)
     rowHoverOpacity?: number; // 행 hover 시 배경 투명도 0-1 (기본값: 0.06)
     viewportBuffer?: number | ViewportBuffer; // 뷰포트 위/아래 미리 렌더링 버퍼 px (기본값: rowHeight 기반 자동 계산)
     overscan?: number | VDTOverscan; // 가상화 overscan 범위 px (기본값: rowHeight 기반 자동 계산)
@@ -108,4 +379,176 @@ export interface VirtualDataTableProps<T> {
     showFooter?: boolean; // 하단 합계 행(tfoot) 표시 여부 (기본값: 컬럼에 footer 가 하나라도 있으면 자동 표시)
     footerHeight?: number; // 하단 합계 행 높이 (px, 기본값: rowHeight)
     footerSx?: SxProps<Theme>; // 하단 합계 행(tfoot) 스타일
+    reorderableColumns?: boolean; // 헤더 드래그로 컬럼 순서 변경 허용 여부 (기본값: false)
+    columnOrder?: string[]; // 컬럼 id 순서 (지정 시 controlled, 목록에 없는 컬럼은 뒤에 배치)
+    onColumnOrderChange?: (columnIds: string[]) => void; // 컬럼 순서 변경 핸들러
+    resizableColumns?: boolean; // 헤더 경계 드래그로 컬럼 너비 조절 허용 여부 (기본값: false)
+    columnWidths?: Record<string, number>; // 컬럼 id 별 너비 (px, 지정 시 controlled — 컬럼 width 보다 우선)
+    onColumnResize?: (columnId: string, width: number) => void; // 컬럼 리사이즈 완료 핸들러 (드래그 종료 시 호출)
+    columnVisibility?: ColumnVisibility; // 컬럼 id 별 표시 여부 (지정 시 controlled)
+    onColumnVisibilityChange?: (columnVisibility: ColumnVisibility) => void; // 컬럼 표시 여부 변경 핸들러
+    columnChooser?: boolean; // 헤더 맨 끝에 컬럼 선택 메뉴 버튼 표시 여부 (기본값: false)
+    stateKey?: string; // 지정하면 정렬/컬럼 너비/순서/표시 여부를 이 키로 저장하고 마운트 시와 키가 바뀔 때 복원 (controlled 로 넘긴 값은 제외)
+    stateStorage?: TableStateStorage; // stateKey 상태 저장소 (기본값: localStorage)
+    cellSelection?: boolean; // 셀 범위 선택 (마우스 드래그, Shift+방향키) 과 Ctrl/Cmd+C 로 TSV 복사 (기본값: false)
+    copyHeaders?: boolean; // 셀 범위 복사 시 첫 줄에 컬럼 헤더 포함 (기본값: false)
+    ariaLabel?: string; // grid 의 접근성 이름 (aria-label)
+    localeText?: VirtualDataTableLocaleText; // 테이블이 표시하는 문구 (지정한 항목만 기본 영어 문구를 대신한다)
+}
+
+/** 무한 스크롤 추가 로드 상태 (idle → loading → idle 또는 error) */
+export type LoadMoreStatus = "idle" | "loading" | "error";
+
+/** useVirtualDataTable 의 추가 로드(onLoadMore) 컨트롤러 */
+export interface LoadMoreController {
+    status: LoadMoreStatus;
+    error?: unknown; // 실패 원인 (status 가 "error" 일 때)
+    canLoadMore: boolean; // onLoadMore 가 있고 hasMore 이며 희소 모드가 아닌지
+    request: () => void; // 다음 페이지 요청 (실패 후 재시도에도 사용)
+    check: (endIndex: number, itemCount?: number) => void; // 마지막으로 렌더링된 index 가 끝에서 loadMoreThreshold 행 안쪽이면 요청 (itemCount 기본값: rowCount)
+    isLoading: () => boolean; // 요청 중인지 (effect/이벤트 핸들러에서도 최신 값)
+}
+
+/** useVirtualDataTable 의 위쪽 로드(onLoadPrevious) 컨트롤러 */
+export interface LoadPreviousController {
+    status: LoadMoreStatus;
+    error?: unknown; // 실패 원인 (status 가 "error" 일 때)
+    canLoadPrevious: boolean; // onLoadPrevious 가 있고 hasPrevious 이며 희소 모드가 아닌지
+    request: () => void; // 위쪽 페이지 요청 (실패 후 재시도에도 사용, 요청 중이거나 data 가 비어 있으면 무시)
+    check: () => void; // 맨 위에 닿았을 때 요청 (실패한 뒤에는 request 를 기다린다)
+    isLoading: () => boolean; // 요청 중인지 (effect/이벤트 핸들러에서도 최신 값)
+}
+
+/** useVirtualDataTable 의 다중 선택 상태 */
+export interface RowSelectionState {
+    enabled: boolean; // 다중 선택 사용 여부 (checkboxSelection/onSelectionChange/selectedRowIds 중 하나라도 있으면 true)
+    selectedRowIds: RowId[];
+    selectedIdSet: ReadonlySet<RowId>;
+    allRowsSelected: boolean;
+    headerState: "none" | "some" | "all"; // 헤더 전체 선택 체크박스 상태
+    canSelectAllRows: boolean; // selectAllScope="all" 이고 불러오지 않은 행이 남아 있는지
+    selectRow: (
+        index: number,
+        modifiers: { shiftKey: boolean; toggle: boolean },
+    ) => void; // 행 선택 (Shift: 범위, toggle: Ctrl/Cmd 또는 체크박스)
+    toggleSelectAll: () => void; // 헤더 전체 선택 토글
+}
+
+/** getRowProps 반환값 (data-row-id/aria-selected 는 행 요소에 그대로 넣을 수 있다) */
+export interface VirtualDataTableRowProps {
+    rowId: RowId;
+    selected: boolean; // 다중 선택 여부
+    "data-row-id": string;
+    "aria-selected"?: boolean; // 다중 선택을 쓸 때만 지정
+    "aria-level"?: number; // 트리 데이터 단계 (1부터, 트리 데이터일 때만 지정)
+    "aria-expanded"?: boolean; // 트리 행 펼침 여부 (펼칠 수 있는 행만 지정)
 }
+
+/** useVirtualDataTable 의 트리 데이터 상태 */
+export interface TreeDataState {
+    rows: TreeRowInfo[]; // 표시 행(rows)과 같은 index 의 트리 정보
+    expandedRowIds: RowId[]; // 펼친 트리 행 식별자
+    toggleRow: (index: number) => void; // 행 펼침/접힘 토글 (자식을 불러오지 않은 행이면 onLoadChildren 호출)
+}
+
+/** useVirtualDataTable 옵션 (같은 이름의 VirtualDataTable props 와 의미가 같다) */
+export interface UseVirtualDataTableOptions<T>
+    extends Pick<
+        VirtualDataTableProps<T>,
+        | "data"
+        | "totalCount"
+        | "loading"
+        | "columns"
+        | "getRowId"
+        | "selectedRowIds"
+        | "allRowsSelected"
+        | "onSelectionChange"
+        | "checkboxSelection"
+        | "selectAllScope"
+        | "onSort"
+        | "onLoadMore"
+        | "pageSize"
+        | "loadMoreThreshold"
+        | "hasMore"
+        | "onLoadRange"
+        | "sortBy"
+        | "sortDirection"
+        | "sortModel"
+        | "onSortModelChange"
+        | "sortMode"
+        | "sortLocale"
+        | "filterModel"
+        | "onFilterChange"
+        | "filterMode"
+        | "groupBy"
+        | "collapsedGroups"
+        | "onCollapsedGroupsChange"
+        | "getChildRows"
+        | "getParentId"
+        | "hasChildRows"
+        | "onLoadChildren"
+        | "expandedTreeRowIds"
+        | "onExpandedTreeRowsChange"
+        | "columnOrder"
+        | "onColumnOrderChange"
+        | "columnVisibility"
+        | "onColumnVisibilityChange"
+        | "columnWidths"
+        | "onColumnResize"
+        | "stateKey"
+        | "stateStorage"
+        | "onLoadPrevious"
+        | "hasPrevious"
+    > {
+    initialSortModel?: SortModel; // 비제어 정렬의 초기 정렬 모델 (마운트 시 onSortModelChange/onSort 로 한 번 알림)
+}
+
+/** useVirtualDataTable 반환값 — 마크업 없이 테이블 상태와 핸들러만 제공한다. */
+export interface UseVirtualDataTableResult<T> {
+    rows: T[]; // 표시 행 (필터/정렬 적용, 접힌 그룹·트리 노드의 행 제외, 희소 모드는 빈 index 포함)
+    processedRows: T[]; // 필터/정렬까지만 적용한 행 (합계 행 footer 에 전달하는 데이터, 트리 데이터는 모든 단계의 행)
+    rowCount: number; // 표시 행 수 (희소 모드는 불러오지 않은 행까지 포함한 totalCount)
+    loadedRowCount: number; // 불러온 행 수 (희소 모드의 빈 index 는 세지 않음)
+    isSparse: boolean; // 희소(sparse) 모드 여부 (onLoadRange 지정 시)
+    rowGroups: RowGroup<T>[] | null; // groupBy 행 그룹 (groupBy 가 없으면 null)
+    groupByIds: string[];
+    collapsedGroupKeys: ReadonlySet<string>;
+    toggleGroup: (groupIndex: number) => void; // 그룹 펼침/접힘 토글
+    tree: TreeDataState | null; // 트리 데이터 (getChildRows/getParentId 가 없거나 희소 모드면 null)
+    orderedColumns: DataColumn<T>[]; // columnOrder 를 적용한 전체 컬럼 (숨긴 컬럼 포함 — 컬럼 선택 메뉴용)
+    visibleColumns: DataColumn<T>[]; // 표시 컬럼 (순서·표시 여부 적용, 고정 컬럼은 양 끝으로)
+    columnVisibility: ColumnVisibility; // 현재 컬럼 표시 여부
+    setColumnOrder: (columnIds: string[]) => void; // 컬럼 순서 변경 (onColumnOrderChange 호출)
+    setColumnVisibility: (columnVisibility: ColumnVisibility) => void; // 컬럼 표시 여부 변경 (onColumnVisibilityChange 호출)
+    getColumnWidth: (column: DataColumn<T>) => number | string | undefined; // 컬럼 너비 (columnWidths → 컬럼 width)
+    setColumnWidth: (columnId: string, width: number) => void; // 컬럼 너비 변경 (onColumnResize 호출)
+    headerRows: HeaderGroup<T>[][]; // visibleColumns 의 헤더 줄별 셀 (위 줄부터, 각 줄은 컬럼 순서대로)
+    sortModel: SortModel; // 현재 정렬 모델
+    isSortControlled: boolean; // sortModel 또는 sortBy 를 넘겼는지
+    handleSort: (columnId: string, multi: boolean) => void; // 헤더 클릭 정렬 (multi: Shift 클릭)
+    filterModel: FilterModel; // 현재 필터 모델
+    handleFilterChange: (
+        columnId: string,
+        value: ColumnFilterValue | undefined,
+    ) => void; // 컬럼 필터 변경 (빈 입력은 모델에서 제거)
+    selection: RowSelectionState;
+    loadMore: LoadMoreController;
+    loadPrevious: LoadPreviousController;
+    getRowId: (item: T, index: number) => RowId; // 행 식별자 (getRowId 가 없으면 index)
+    getRowProps: (item: T, index: number) => VirtualDataTableRowProps; // 행 식별자/선택 여부와 행 요소 속성
+}
+
+/** 테마 styleOverrides 슬롯 이름 (theme.components.MuiVirtualDataTable.styleOverrides) */
+export type VirtualDataTableClassKey =
+    | "root" // 바깥 Paper/Box
+    | "headerCell" // 헤더 셀 (그룹 헤더 포함)
+    | "row" // 본문 행
+    | "cell" // 본문 셀
+    | "footer" // 합계 행 영역 (tfoot)
+    | "empty" // 빈 데이터 표시
+    | "loading"; // 로딩 오버레이
+
+/** 테마 defaultProps 로 줄 수 있는 props (data/totalCount/columns 처럼 테이블마다 다른 값은 제외) */
+export type VirtualDataTableThemeProps = Partial<
+    Omit<VirtualDataTableProps<any>, "data" | "totalCount" | "columns">
+>;
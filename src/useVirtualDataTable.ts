@@ -0,0 +1,1200 @@
+/**
+ * useVirtualDataTable.ts - 헤드리스 테이블 상태 훅
+ *
+ * MIT License
+ *
+ * Copyright (c) 2025 KIM YOUNG JIN (ehfuse@gmail.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+    applyColumnOrder,
+    applyColumnPinning,
+    applyColumnVisibility,
+    getHeaderRows,
+} from "./columns";
+import { filterRows, isFilterActive } from "./filtering";
+import { groupRows } from "./grouping";
+import { DEFAULT_LOCALE_TEXT } from "./localeText";
+import { getNextSortModel, sortRows } from "./sorting";
+import {
+    getDefaultTableStateStorage,
+    loadTableState,
+    saveTableState,
+} from "./tableState";
+import {
+    buildTreeNodes,
+    collectTreeNodes,
+    filterTreeNodes,
+    flattenTreeNodes,
+    sortTreeNodes,
+} from "./treeData";
+import type {
+    ColumnFilterValue,
+    ColumnVisibility,
+    DataColumn,
+    FilterModel,
+    LoadMoreController,
+    LoadMoreStatus,
+    LoadPreviousController,
+    RowId,
+    RowSelectionState,
+    SortModel,
+    TreeDataState,
+    TreeNode,
+    TreeRowInfo,
+    UseVirtualDataTableOptions,
+    UseVirtualDataTableResult,
+    VirtualDataTableRowProps,
+} from "./types";
+
+/**
+ * 헤드리스 테이블 훅 — 정렬/필터/행 그룹, 다중 선택, 무한 스크롤 추가 로드 상태를 관리하고
+ * 렌더링은 호출하는 쪽에 맡긴다. VirtualDataTable 도 이 훅 위에서 MUI 로 그린다.
+ */
+export function useVirtualDataTable<T>({
+    data: dataProp,
+    totalCount,
+    loading = false,
+    columns,
+    getRowId,
+    selectedRowIds,
+    allRowsSelected,
+    onSelectionChange,
+    checkboxSelection = false,
+    selectAllScope = "loaded",
+    onSort,
+    onLoadMore,
+    pageSize = 50,
+    loadMoreThreshold = 0,
+    hasMore = true,
+    onLoadRange,
+    sortBy,
+    sortDirection,
+    sortModel,
+    onSortModelChange,
+    sortMode,
+    sortLocale,
+    filterModel,
+    onFilterChange,
+    filterMode,
+    groupBy,
+    collapsedGroups,
+    onCollapsedGroupsChange,
+    getChildRows,
+    getParentId,
+    hasChildRows,
+    onLoadChildren,
+    expandedTreeRowIds,
+    onExpandedTreeRowsChange,
+    columnOrder,
+    onColumnOrderChange,
+    columnVisibility,
+    onColumnVisibilityChange,
+    columnWidths,
+    onColumnResize,
+    stateKey,
+    stateStorage,
+    onLoadPrevious,
+    hasPrevious = true,
+    initialSortModel: initialSortModelProp,
+}: UseVirtualDataTableOptions<T>): UseVirtualDataTableResult<T> {
+    // 희소(sparse) 모드 — data 는 행 index 위치에 둔 희소 배열이고, 스크롤은 totalCount 전체를 기준으로 한다.
+    // 불러오지 않은 행이 섞여 있으므로 정렬/필터는 서버에 맡기고 행 그룹은 쓰지 않는다.
+    const isSparse = !!onLoadRange;
+    // 트리 데이터 모드 — 행 그룹은 쓰지 않고, 필터/정렬은 형제 단계마다 적용한다.
+    const isTree = !isSparse && (!!getChildRows || !!getParentId);
+
+    // 인라인으로 넘긴 getRowId 가 바뀌어도 getRowId/getRowProps 의 identity 는 유지한다.
+    // 트리 데이터는 표시 index 가 펼침에 따라 바뀌므로 트리를 만들 때 정한 노드 식별자를 쓴다.
+    const getRowIdRef = useRef(getRowId);
+    getRowIdRef.current = getRowId;
+    const treeRowIdsRef = useRef<Map<T, RowId> | null>(null);
+    const resolveRowId = useCallback(
+        (item: T, index: number): RowId =>
+            treeRowIdsRef.current?.get(item) ??
+            (getRowIdRef.current ? getRowIdRef.current(item, index) : index),
+        [],
+    );
+
+    // stateKey 로 저장해 둔 레이아웃 상태 — 마운트 시와 stateKey 가 바뀔 때 읽어 각 내부 상태의 초기값으로 쓴다.
+    const readLayoutState = (key: string | undefined) => ({
+        key,
+        state: key
+            ? loadTableState(
+                  stateStorage ?? getDefaultTableStateStorage(),
+                  key,
+                  columns,
+              )
+            : {},
+    });
+    const [savedLayout, setSavedLayout] = useState(() =>
+        readLayoutState(stateKey),
+    );
+    const savedLayoutState = savedLayout.state;
+    const initialSortModel = savedLayoutState.sortModel ?? initialSortModelProp;
+
+    // 정렬 모델 (sortModel → sortBy/sortDirection → 내부 상태 순으로 사용)
+    // onSort 가 없으면(client 모드) data 를 직접 정렬한다.
+    const [internalSortModel, setInternalSortModel] = useState<SortModel>(
+        () => initialSortModel ?? [],
+    );
+    const isSortControlled = sortModel !== undefined || sortBy !== undefined;
+    const currentSortModel = useMemo<SortModel>(() => {
+        if (sortModel) {
+            return sortModel;
+        }
+        if (sortBy !== undefined) {
+            return [{ columnId: sortBy, direction: sortDirection ?? "asc" }];
+        }
+        return internalSortModel;
+    }, [sortModel, sortBy, sortDirection, internalSortModel]);
+    const resolvedSortMode =
+        sortMode ?? (onSort || isSparse ? "server" : "client");
+    const sortCollator = useMemo(
+        () =>
+            new Intl.Collator(sortLocale, {
+                numeric: true,
+                sensitivity: "base",
+            }),
+        // 배열 로케일을 인라인으로 넘겨도 매 렌더마다 재정렬되지 않도록 값으로 비교한다.
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+        [String(sortLocale ?? "")],
+    );
+
+    // 필터 모델 (filterModel 이 있으면 controlled)
+    // client 모드에서는 필터 → 정렬 순으로 적용한다.
+    const [internalFilterModel, setInternalFilterModel] = useState<FilterModel>(
+        {},
+    );
+    const currentFilterModel = filterModel ?? internalFilterModel;
+    const resolvedFilterMode = filterMode ?? (isSparse ? "server" : "client");
+    const filteredData = useMemo(
+        () =>
+            resolvedFilterMode === "client" && !isSparse && !isTree
+                ? filterRows(dataProp, currentFilterModel, columns)
+                : dataProp,
+        [
+            resolvedFilterMode,
+            isSparse,
+            isTree,
+            dataProp,
+            currentFilterModel,
+            columns,
+        ],
+    );
+    const sortedData = useMemo(
+        () =>
+            resolvedSortMode === "client" &&
+            !isSparse &&
+            !isTree &&
+            currentSortModel.length > 0
+                ? sortRows(
+                      filteredData,
+                      currentSortModel,
+                      columns,
+                      sortCollator,
+                  )
+                : filteredData,
+        [
+            resolvedSortMode,
+            isSparse,
+            isTree,
+            currentSortModel,
+            filteredData,
+            columns,
+            sortCollator,
+        ],
+    );
+
+    // 트리 데이터 (getChildRows/getParentId) — 트리 구성 콜백은 인라인으로 넘겨도 data 가 바뀔 때만 다시 읽는다.
+    // (자식을 불러오면 data 를 새 배열로 바꿔 넘긴다)
+    const getChildRowsRef = useRef(getChildRows);
+    getChildRowsRef.current = getChildRows;
+    const getParentIdRef = useRef(getParentId);
+    getParentIdRef.current = getParentId;
+    const hasChildRowsRef = useRef(hasChildRows);
+    hasChildRowsRef.current = hasChildRows;
+    const onLoadChildrenRef = useRef(onLoadChildren);
+    onLoadChildrenRef.current = onLoadChildren;
+    const treeMode = !isTree ? null : getChildRows ? "children" : "parent";
+    const treeNodes = useMemo(
+        () =>
+            treeMode
+                ? buildTreeNodes(dataProp, {
+                      getChildRows:
+                          treeMode === "children"
+                              ? getChildRowsRef.current
+                              : undefined,
+                      getParentId: getParentIdRef.current,
+                      getRowId: getRowIdRef.current,
+                  })
+                : null,
+        [treeMode, dataProp],
+    );
+    const treeNodeById = useMemo(() => {
+        const nodeById = new Map<RowId, TreeNode<T>>();
+        if (treeNodes) {
+            collectTreeNodes(treeNodes).forEach((node) =>
+                nodeById.set(node.rowId, node),
+            );
+        }
+        return nodeById;
+    }, [treeNodes]);
+    treeRowIdsRef.current = useMemo(() => {
+        if (!treeNodes) {
+            return null;
+        }
+        const rowIds = new Map<T, RowId>();
+        treeNodeById.forEach((node, rowId) => rowIds.set(node.item, rowId));
+        return rowIds;
+    }, [treeNodes, treeNodeById]);
+    // 필터는 조건에 맞는 행과 그 조상을 남기고, 정렬은 형제끼리만 한다.
+    const processedTreeNodes = useMemo(() => {
+        if (!treeNodes) {
+            return null;
+        }
+        let nodes = treeNodes;
+        if (resolvedFilterMode === "client") {
+            const allItems = collectTreeNodes(nodes).map((node) => node.item);
+            const matchedItems = filterRows(
+                allItems,
+                currentFilterModel,
+                columns,
+            );
+            if (matchedItems !== allItems) {
+                const matchedSet = new Set(matchedItems);
+                nodes = filterTreeNodes(nodes, (item) => matchedSet.has(item));
+            }
+        }
+        if (resolvedSortMode === "client" && currentSortModel.length > 0) {
+            nodes = sortTreeNodes(nodes, (items) =>
+                sortRows(items, currentSortModel, columns, sortCollator),
+            );
+        }
+        return nodes;
+    }, [
+        treeNodes,
+        resolvedFilterMode,
+        currentFilterModel,
+        resolvedSortMode,
+        currentSortModel,
+        columns,
+        sortCollator,
+    ]);
+    const processedData = useMemo(
+        () =>
+            processedTreeNodes
+                ? collectTreeNodes(processedTreeNodes).map((node) => node.item)
+                : sortedData,
+        [processedTreeNodes, sortedData],
+    );
+
+    // 트리 행 펼침 상태 (expandedTreeRowIds 를 넘기면 controlled, 아니면 내부 상태)
+    const [internalExpandedTreeRowIds, setInternalExpandedTreeRowIds] =
+        useState<RowId[]>([]);
+    const currentExpandedTreeRowIds =
+        expandedTreeRowIds ?? internalExpandedTreeRowIds;
+    const expandedTreeRowIdSet = useMemo(
+        () => new Set<RowId>(currentExpandedTreeRowIds),
+        [currentExpandedTreeRowIds],
+    );
+    const flatTreeRows = useMemo(
+        () =>
+            processedTreeNodes
+                ? flattenTreeNodes(processedTreeNodes, expandedTreeRowIdSet)
+                : null,
+        [processedTreeNodes, expandedTreeRowIdSet],
+    );
+
+    // 자식을 불러오는 중인 트리 행 — Promise 면 끝날 때, 아니면 자식이 들어오면 해제한다.
+    const [loadingTreeRowIds, setLoadingTreeRowIds] = useState<
+        ReadonlySet<RowId>
+    >(() => new Set());
+    const finishTreeRowLoad = useCallback((rowId: RowId) => {
+        setLoadingTreeRowIds((prev) => {
+            if (!prev.has(rowId)) {
+                return prev;
+            }
+            const next = new Set(prev);
+            next.delete(rowId);
+            return next;
+        });
+    }, []);
+    useEffect(() => {
+        loadingTreeRowIds.forEach((rowId) => {
+            const node = treeNodeById.get(rowId);
+            if (!node || node.children) {
+                finishTreeRowLoad(rowId);
+            }
+        });
+    }, [treeNodeById, loadingTreeRowIds, finishTreeRowLoad]);
+
+    const hasLoadChildren = !!onLoadChildren;
+    const isTreeNodeExpandable = useCallback(
+        (node: TreeNode<T>) =>
+            hasChildRowsRef.current?.(node.item) ??
+            (node.children
+                ? node.children.length > 0
+                : hasLoadChildren && treeMode === "children"),
+        [hasLoadChildren, treeMode],
+    );
+    const treeRows = useMemo(
+        () =>
+            flatTreeRows?.map(({ node, depth }): TreeRowInfo => {
+                const expandable = isTreeNodeExpandable(node);
+                return {
+                    rowId: node.rowId,
+                    depth,
+                    expandable,
+                    expanded:
+                        expandable && expandedTreeRowIdSet.has(node.rowId),
+                    loading: loadingTreeRowIds.has(node.rowId),
+                };
+            }) ?? null,
+        [
+            flatTreeRows,
+            isTreeNodeExpandable,
+            expandedTreeRowIdSet,
+            loadingTreeRowIds,
+        ],
+    );
+
+    // 트리 행 펼침/접힘 토글 (index 는 표시 행 index) — 자식을 불러오지 않은 행을 펼치면 onLoadChildren 을 호출한다.
+    const toggleTreeRow = useCallback(
+        (index: number) => {
+            const node = flatTreeRows?.[index]?.node;
+            if (!node || !isTreeNodeExpandable(node)) {
+                return;
+            }
+            const expanded = expandedTreeRowIdSet.has(node.rowId);
+            const nextRowIds = expanded
+                ? currentExpandedTreeRowIds.filter((id) => id !== node.rowId)
+                : [...currentExpandedTreeRowIds, node.rowId];
+            if (expandedTreeRowIds === undefined) {
+                setInternalExpandedTreeRowIds(nextRowIds);
+            }
+            onExpandedTreeRowsChange?.(nextRowIds);
+
+            const loadChildren = onLoadChildrenRef.current;
+            if (
+                expanded ||
+                node.children ||
+                !loadChildren ||
+                loadingTreeRowIds.has(node.rowId)
+            ) {
+                return;
+            }
+            setLoadingTreeRowIds((prev) => new Set(prev).add(node.rowId));
+            // 실패하면(예외 또는 reject) 로딩만 해제해, 접었다 다시 펼치면 다시 불러오게 한다.
+            const finish = () => finishTreeRowLoad(node.rowId);
+            let result: void | Promise<void>;
+            try {
+                result = loadChildren(node.item);
+            } catch {
+                finish();
+                return;
+            }
+            if (result && typeof result.then === "function") {
+                result.then(finish, finish);
+            }
+        },
+        [
+            flatTreeRows,
+            isTreeNodeExpandable,
+            expandedTreeRowIdSet,
+            currentExpandedTreeRowIds,
+            expandedTreeRowIds,
+            onExpandedTreeRowsChange,
+            loadingTreeRowIds,
+            finishTreeRowLoad,
+        ],
+    );
+    const tree = useMemo<TreeDataState | null>(
+        () =>
+            treeRows
+                ? {
+                      rows: treeRows,
+                      expandedRowIds: currentExpandedTreeRowIds,
+                      toggleRow: toggleTreeRow,
+                  }
+                : null,
+        [treeRows, currentExpandedTreeRowIds, toggleTreeRow],
+    );
+
+    // 행 그룹 (groupBy) — 접힌 그룹의 행은 표시 행(data)에서 빠진다.
+    // data 의 index 가 그대로 행 index 이므로 선택/키보드 탐색은 그룹 행을 세지 않는다.
+    const groupByKey =
+        isSparse || isTree
+            ? ""
+            : Array.isArray(groupBy)
+              ? groupBy.join("\u0000")
+              : (groupBy ?? "");
+    const groupByIds = useMemo(
+        () => (groupByKey ? groupByKey.split("\u0000") : []),
+        [groupByKey],
+    );
+    const rowGroups = useMemo(
+        () =>
+            groupByIds.length > 0 ? groupRows(processedData, groupByIds) : null,
+        [processedData, groupByIds],
+    );
+    const [internalCollapsedGroups, setInternalCollapsedGroups] = useState<
+        string[]
+    >([]);
+    const currentCollapsedGroups = collapsedGroups ?? internalCollapsedGroups;
+    const collapsedGroupSet = useMemo(
+        () => new Set(currentCollapsedGroups),
+        [currentCollapsedGroups],
+    );
+    const data = useMemo(
+        () =>
+            flatTreeRows
+                ? flatTreeRows.map(({ node }) => node.item)
+                : rowGroups
+                  ? rowGroups.flatMap((group) =>
+                        collapsedGroupSet.has(group.key) ? [] : group.rows,
+                    )
+                  : processedData,
+        [flatTreeRows, rowGroups, collapsedGroupSet, processedData],
+    );
+    // 표시 행 수 (sparse 모드는 불러오지 않은 행까지 포함한 totalCount)
+    const rowCount = isSparse ? Math.max(totalCount, data.length) : data.length;
+    // 불러온 행 수 (sparse 모드의 빈 index 는 세지 않는다)
+    const loadedRowCount = useMemo(
+        () =>
+            isSparse
+                ? data.reduce(
+                      (count, item) => (item === undefined ? count : count + 1),
+                      0,
+                  )
+                : data.length,
+        [isSparse, data],
+    );
+
+    // 컬럼 순서 (columnOrder 를 넘기면 controlled, 아니면 내부 상태)
+    const [internalColumnOrder, setInternalColumnOrder] = useState<
+        string[] | undefined
+    >(() => savedLayoutState.columnOrder);
+    const currentColumnOrder = columnOrder ?? internalColumnOrder;
+    const orderedColumns = useMemo(
+        () => applyColumnOrder(columns, currentColumnOrder),
+        [columns, currentColumnOrder],
+    );
+    const setColumnOrder = useCallback(
+        (columnIds: string[]) => {
+            if (columnOrder === undefined) {
+                setInternalColumnOrder(columnIds);
+            }
+            onColumnOrderChange?.(columnIds);
+        },
+        [columnOrder, onColumnOrderChange],
+    );
+
+    // 컬럼 표시 여부 (columnVisibility 를 넘기면 controlled, 아니면 내부 상태)
+    const [internalColumnVisibility, setInternalColumnVisibility] =
+        useState<ColumnVisibility>(
+            () => savedLayoutState.columnVisibility ?? {},
+        );
+    const currentColumnVisibility =
+        columnVisibility ?? internalColumnVisibility;
+    const setColumnVisibility = useCallback(
+        (nextVisibility: ColumnVisibility) => {
+            if (columnVisibility === undefined) {
+                setInternalColumnVisibility(nextVisibility);
+            }
+            onColumnVisibilityChange?.(nextVisibility);
+        },
+        [columnVisibility, onColumnVisibilityChange],
+    );
+
+    // 표시 컬럼 — 순서와 표시 여부를 적용하고 고정 컬럼을 양 끝으로 모은다.
+    const visibleColumns = useMemo(
+        () =>
+            applyColumnPinning(
+                applyColumnVisibility(orderedColumns, currentColumnVisibility),
+            ),
+        [orderedColumns, currentColumnVisibility],
+    );
+
+    // 컬럼 너비 (columnWidths 를 넘기면 controlled, 아니면 내부 상태 — 컬럼 width 보다 우선)
+    const [internalColumnWidths, setInternalColumnWidths] = useState<
+        Record<string, number>
+    >(() => savedLayoutState.columnWidths ?? {});
+    const currentColumnWidths = columnWidths ?? internalColumnWidths;
+    const setColumnWidth = useCallback(
+        (columnId: string, width: number) => {
+            if (columnWidths === undefined) {
+                setInternalColumnWidths((prev) => ({
+                    ...prev,
+                    [columnId]: width,
+                }));
+            }
+            onColumnResize?.(columnId, width);
+        },
+        [columnWidths, onColumnResize],
+    );
+    const getColumnWidth = useCallback(
+        (column: DataColumn<T>) =>
+            currentColumnWidths[String(column.id)] ?? column.width,
+        [currentColumnWidths],
+    );
+
+    // stateKey 가 바뀌면 새 키의 상태를 다시 읽어 내부 상태를 바꾼다.
+    // 렌더 중에 바로 바꾸므로 이전 키의 레이아웃이 새 키로 저장되지 않는다.
+    if (savedLayout.key !== stateKey) {
+        const nextLayout = readLayoutState(stateKey);
+        setSavedLayout(nextLayout);
+        setInternalSortModel(
+            nextLayout.state.sortModel ?? initialSortModelProp ?? [],
+        );
+        setInternalColumnOrder(nextLayout.state.columnOrder);
+        setInternalColumnVisibility(nextLayout.state.columnVisibility ?? {});
+        setInternalColumnWidths(nextLayout.state.columnWidths ?? {});
+    }
+
+    // 레이아웃 상태 저장 (stateKey) — 내부 상태가 바뀔 때마다 저장한다.
+    // controlled 로 넘긴 값은 저장하지 않으므로 정렬은 복원해 둔 값을 그대로 둔다.
+    const persistedSortModel = isSortControlled
+        ? savedLayoutState.sortModel
+        : currentSortModel;
+    const stateStorageRef = useRef(stateStorage);
+    stateStorageRef.current = stateStorage;
+    useEffect(() => {
+        if (!stateKey || savedLayout.key !== stateKey) {
+            return;
+        }
+        saveTableState(
+            stateStorageRef.current ?? getDefaultTableStateStorage(),
+            stateKey,
+            {
+                sortModel: persistedSortModel ?? [],
+                columnWidths: internalColumnWidths,
+                columnOrder: internalColumnOrder,
+                columnVisibility: internalColumnVisibility,
+            },
+        );
+    }, [
+        stateKey,
+        savedLayout,
+        persistedSortModel,
+        internalColumnWidths,
+        internalColumnOrder,
+        internalColumnVisibility,
+    ]);
+
+    const headerRows = useMemo(
+        () => getHeaderRows(visibleColumns),
+        [visibleColumns],
+    );
+
+    // 정렬 핸들러 (multi: Shift 클릭으로 다중 정렬 모델에 추가/전환)
+    const handleSort = useCallback(
+        (columnId: string, multi: boolean) => {
+            const nextModel = getNextSortModel(
+                currentSortModel,
+                columnId,
+                multi,
+            );
+            if (!isSortControlled) {
+                setInternalSortModel(nextModel);
+            }
+            onSortModelChange?.(nextModel);
+
+            const changed = nextModel.find(
+                (item) => item.columnId === columnId,
+            );
+            if (changed) {
+                onSort?.(columnId, changed.direction);
+            }
+        },
+        [currentSortModel, isSortControlled, onSortModelChange, onSort],
+    );
+
+    // 초기 정렬(stateKey 로 복원한 정렬 등)은 마운트 시와 stateKey 가 바뀔 때 한 번 알린다. (server 모드에서 그 정렬로 다시 불러올 수 있도록)
+    useEffect(() => {
+        if (
+            isSortControlled ||
+            !initialSortModel ||
+            initialSortModel.length === 0
+        ) {
+            return;
+        }
+        onSortModelChange?.(initialSortModel);
+        onSort?.(initialSortModel[0].columnId, initialSortModel[0].direction);
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [savedLayout]);
+
+    // 필터 변경 핸들러 (빈 입력은 모델에서 제거)
+    const handleFilterChange = useCallback(
+        (columnId: string, value: ColumnFilterValue | undefined) => {
+            const nextModel = { ...currentFilterModel };
+            if (value && isFilterActive(value)) {
+                nextModel[columnId] = value;
+            } else {
+                delete nextModel[columnId];
+            }
+            if (filterModel === undefined) {
+                setInternalFilterModel(nextModel);
+            }
+            onFilterChange?.(nextModel);
+        },
+        [currentFilterModel, filterModel, onFilterChange],
+    );
+
+    // 그룹 펼침/접힘 토글 (groupIndex 는 rowGroups index)
+    const toggleGroup = useCallback(
+        (groupIndex: number) => {
+            const group = rowGroups?.[groupIndex];
+            if (!group) {
+                return;
+            }
+            const nextGroups = collapsedGroupSet.has(group.key)
+                ? currentCollapsedGroups.filter((key) => key !== group.key)
+                : [...currentCollapsedGroups, group.key];
+            if (collapsedGroups === undefined) {
+                setInternalCollapsedGroups(nextGroups);
+            }
+            onCollapsedGroupsChange?.(nextGroups);
+        },
+        [
+            rowGroups,
+            collapsedGroupSet,
+            currentCollapsedGroups,
+            collapsedGroups,
+            onCollapsedGroupsChange,
+        ],
+    );
+
+    // 다중 선택 (selectedRowIds/allRowsSelected 를 넘기면 controlled, 아니면 내부 상태)
+    const selectionEnabled =
+        checkboxSelection ||
+        !!onSelectionChange ||
+        selectedRowIds !== undefined;
+    const [internalSelectedRowIds, setInternalSelectedRowIds] = useState<
+        RowId[]
+    >([]);
+    const [internalAllRowsSelected, setInternalAllRowsSelected] =
+        useState(false);
+    const currentSelectedRowIds = selectedRowIds ?? internalSelectedRowIds;
+    const currentAllRowsSelected = allRowsSelected ?? internalAllRowsSelected;
+    const selectedIdSet = useMemo(
+        () => new Set<RowId>(currentSelectedRowIds),
+        [currentSelectedRowIds],
+    );
+    const selectionAnchorIndexRef = useRef<number | null>(null);
+
+    const commitSelection = useCallback(
+        (rowIds: RowId[], allRows: boolean) => {
+            if (selectedRowIds === undefined) {
+                setInternalSelectedRowIds(rowIds);
+            }
+            if (allRowsSelected === undefined) {
+                setInternalAllRowsSelected(allRows);
+            }
+            onSelectionChange?.(rowIds, allRows);
+        },
+        [selectedRowIds, allRowsSelected, onSelectionChange],
+    );
+
+    const getLoadedRowIds = useCallback(
+        () =>
+            data.flatMap((item, index) =>
+                item === undefined ? [] : [resolveRowId(item, index)],
+            ),
+        [data, resolveRowId],
+    );
+
+    // 행 선택 처리
+    // - Shift: 기준 행(anchor)부터 범위 선택 (Ctrl/Cmd 를 함께 누르면 기존 선택에 추가)
+    // - Ctrl/Cmd 또는 체크박스: 해당 행 토글
+    // - 그 외: 해당 행만 선택
+    const selectRow = useCallback(
+        (index: number, modifiers: { shiftKey: boolean; toggle: boolean }) => {
+            const item = data[index];
+            if (item === undefined) {
+                return;
+            }
+            const rowId = resolveRowId(item, index);
+            const anchorIndex = selectionAnchorIndexRef.current;
+            // 전체 선택 상태에서 개별 조작을 하면 불러온 행 기준 선택으로 풀어서 처리한다.
+            const baseIds = currentAllRowsSelected
+                ? getLoadedRowIds()
+                : currentSelectedRowIds;
+
+            if (modifiers.shiftKey && anchorIndex !== null) {
+                const start = Math.min(anchorIndex, index);
+                const end = Math.min(
+                    Math.max(anchorIndex, index),
+                    data.length - 1,
+                );
+                const rangeIds: RowId[] = [];
+                for (let i = start; i <= end; i += 1) {
+                    if (data[i] !== undefined) {
+                        rangeIds.push(resolveRowId(data[i], i));
+                    }
+                }
+                const nextIds = modifiers.toggle
+                    ? Array.from(new Set([...baseIds, ...rangeIds]))
+                    : rangeIds;
+                commitSelection(nextIds, false);
+                return;
+            }
+
+            selectionAnchorIndexRef.current = index;
+            if (modifiers.toggle) {
+                const isSelected =
+                    currentAllRowsSelected || selectedIdSet.has(rowId);
+                commitSelection(
+                    isSelected
+                        ? baseIds.filter((id) => id !== rowId)
+                        : [...baseIds, rowId],
+                    false,
+                );
+                return;
+            }
+            commitSelection([rowId], false);
+        },
+        [
+            data,
+            resolveRowId,
+            currentAllRowsSelected,
+            currentSelectedRowIds,
+            selectedIdSet,
+            getLoadedRowIds,
+            commitSelection,
+        ],
+    );
+
+    // 헤더 전체 선택 체크박스 상태
+    const loadedSelectedCount = useMemo(() => {
+        if (!selectionEnabled || currentAllRowsSelected) {
+            return loadedRowCount;
+        }
+        let count = 0;
+        data.forEach((item, index) => {
+            if (
+                item !== undefined &&
+                selectedIdSet.has(resolveRowId(item, index))
+            ) {
+                count += 1;
+            }
+        });
+        return count;
+    }, [
+        selectionEnabled,
+        currentAllRowsSelected,
+        data,
+        loadedRowCount,
+        selectedIdSet,
+        resolveRowId,
+    ]);
+    const canSelectAllRows =
+        selectAllScope === "all" && totalCount > loadedRowCount;
+    const headerSelectionState: "none" | "some" | "all" = currentAllRowsSelected
+        ? "all"
+        : loadedSelectedCount === 0
+          ? "none"
+          : loadedSelectedCount === loadedRowCount && !canSelectAllRows
+            ? "all"
+            : "some";
+
+    const toggleSelectAll = useCallback(() => {
+        if (headerSelectionState !== "none") {
+            commitSelection([], false);
+            return;
+        }
+        commitSelection(getLoadedRowIds(), canSelectAllRows);
+    }, [
+        headerSelectionState,
+        commitSelection,
+        getLoadedRowIds,
+        canSelectAllRows,
+    ]);
+
+    const selection = useMemo<RowSelectionState>(
+        () => ({
+            enabled: selectionEnabled,
+            selectedRowIds: currentSelectedRowIds,
+            selectedIdSet,
+            allRowsSelected: currentAllRowsSelected,
+            headerState: headerSelectionState,
+            canSelectAllRows,
+            selectRow,
+            toggleSelectAll,
+        }),
+        [
+            selectionEnabled,
+            currentSelectedRowIds,
+            selectedIdSet,
+            currentAllRowsSelected,
+            headerSelectionState,
+            canSelectAllRows,
+            selectRow,
+            toggleSelectAll,
+        ],
+    );
+
+    const getRowProps = useCallback(
+        (item: T, index: number): VirtualDataTableRowProps => {
+            const rowId = resolveRowId(item, index);
+            const selected =
+                selectionEnabled &&
+                (currentAllRowsSelected || selectedIdSet.has(rowId));
+            const treeRow = treeRows?.[index];
+            return {
+                rowId,
+                selected,
+                "data-row-id": String(rowId),
+                "aria-selected": selectionEnabled ? selected : undefined,
+                "aria-level": treeRow ? treeRow.depth + 1 : undefined,
+                "aria-expanded": treeRow?.expandable
+                    ? treeRow.expanded
+                    : undefined,
+            };
+        },
+        [
+            resolveRowId,
+            selectionEnabled,
+            currentAllRowsSelected,
+            selectedIdSet,
+            treeRows,
+        ],
+    );
+
+    // 무한 스크롤 추가 로드 상태 (idle → loading → idle 또는 error)
+    // onLoadMore 가 Promise 를 반환하면 그 결과로, 아니면 loading 이 끝나거나 data 가 바뀌면 완료로 본다.
+    // (둘 다 없이 돌아오면 — 예: "더 없음" 으로 바로 return — 요청 직후 렌더에서 완료로 본다)
+    const [loadMoreState, setLoadMoreState] = useState<{
+        status: LoadMoreStatus;
+        error?: unknown;
+    }>({ status: "idle" });
+    const loadMoreControllerRef = useRef<AbortController | null>(null);
+    const awaitsLoadingPropRef = useRef(false);
+    const isLoadingMoreRef = useRef(false);
+    const [loadMoreSettleTick, setLoadMoreSettleTick] = useState(0);
+    const canLoadMore = !!onLoadMore && hasMore && !isSparse;
+
+    const finishLoadMore = useCallback((error?: unknown) => {
+        loadMoreControllerRef.current = null;
+        awaitsLoadingPropRef.current = false;
+        isLoadingMoreRef.current = false;
+        setLoadMoreState(
+            error === undefined
+                ? { status: "idle" }
+                : { status: "error", error },
+        );
+    }, []);
+
+    const requestLoadMore = useCallback(() => {
+        if (!onLoadMore || isLoadingMoreRef.current) {
+            return;
+        }
+        isLoadingMoreRef.current = true;
+        const controller = new AbortController();
+        loadMoreControllerRef.current = controller;
+        setLoadMoreState({ status: "loading" });
+
+        let result: void | Promise<void>;
+        try {
+            // 필터로 표시 행이 줄어도 다음 페이지 offset 은 불러온 원본 행 수 기준이다.
+            result = onLoadMore(dataProp.length, pageSize, controller.signal);
+        } catch (error) {
+            finishLoadMore(
+                error ?? new Error(DEFAULT_LOCALE_TEXT.loadMoreError),
+            );
+            return;
+        }
+        if (!result || typeof result.then !== "function") {
+            awaitsLoadingPropRef.current = true;
+            setLoadMoreSettleTick((tick) => tick + 1);
+            return;
+        }
+        result.then(
+            () => {
+                if (loadMoreControllerRef.current === controller) {
+                    finishLoadMore();
+                }
+            },
+            (error: unknown) => {
+                if (
+                    loadMoreControllerRef.current === controller &&
+                    !controller.signal.aborted
+                ) {
+                    finishLoadMore(
+                        error ?? new Error(DEFAULT_LOCALE_TEXT.loadMoreError),
+                    );
+                }
+            },
+        );
+    }, [onLoadMore, dataProp.length, pageSize, finishLoadMore]);
+
+    // 마지막으로 렌더링된 index 가 끝에서 loadMoreThreshold 행 안쪽이면 다음 페이지를 요청한다.
+    // 실패한 뒤에는 자동으로 다시 요청하지 않고 request(재시도)를 기다린다.
+    const checkLoadMore = useCallback(
+        (endIndex: number, itemCount: number = rowCount) => {
+            if (
+                !canLoadMore ||
+                isLoadingMoreRef.current ||
+                loadMoreState.status === "error" ||
+                (loading && dataProp.length === 0)
+            ) {
+                return;
+            }
+            if (endIndex >= itemCount - 1 - loadMoreThreshold) {
+                requestLoadMore();
+            }
+        },
+        [
+            canLoadMore,
+            loadMoreState.status,
+            loading,
+            dataProp.length,
+            rowCount,
+            loadMoreThreshold,
+            requestLoadMore,
+        ],
+    );
+
+    const isLoadingMore = useCallback(() => isLoadingMoreRef.current, []);
+
+    // Promise 를 반환하지 않는 onLoadMore 는 loading 이 끝나면 완료로 본다.
+    // 요청 직후 렌더(settle tick)에서 loading 이 켜져 있지 않아도 완료로 본다.
+    useEffect(() => {
+        if (!loading && awaitsLoadingPropRef.current) {
+            finishLoadMore();
+        }
+    }, [loading, loadMoreSettleTick, finishLoadMore]);
+
+    // data 가 바뀌어도 완료로 본다.
+    const prevLoadedDataRef = useRef(dataProp);
+    useEffect(() => {
+        const changed = dataProp !== prevLoadedDataRef.current;
+        prevLoadedDataRef.current = dataProp;
+        if (changed && awaitsLoadingPropRef.current) {
+            finishLoadMore();
+        }
+    }, [dataProp, finishLoadMore]);
+
+    // 데이터가 비워지면 이전 데이터 기준으로 진행 중인 추가 로드를 취소한다.
+    useEffect(() => {
+        if (
+            dataProp.length === 0 &&
+            (loadMoreControllerRef.current || isLoadingMoreRef.current)
+        ) {
+            loadMoreControllerRef.current?.abort();
+            finishLoadMore();
+        }
+    }, [dataProp.length, finishLoadMore]);
+
+    // 언마운트 시 진행 중인 추가 로드를 취소한다.
+    useEffect(
+        () => () => {
+            loadMoreControllerRef.current?.abort();
+        },
+        [],
+    );
+
+    const loadMore = useMemo<LoadMoreController>(
+        () => ({
+            status: loadMoreState.status,
+            error: loadMoreState.error,
+            canLoadMore,
+            request: requestLoadMore,
+            check: checkLoadMore,
+            isLoading: isLoadingMore,
+        }),
+        [
+            loadMoreState,
+            canLoadMore,
+            requestLoadMore,
+            checkLoadMore,
+            isLoadingMore,
+        ],
+    );
+
+    // 위쪽(이전) 데이터 로드 상태 — 완료/실패 판단은 onLoadMore 와 같다.
+    // 실패한 뒤에는 맨 위에 닿아도 다시 요청하지 않고 request(재시도)를 기다린다.
+    const [loadPreviousState, setLoadPreviousState] = useState<{
+        status: LoadMoreStatus;
+        error?: unknown;
+    }>({ status: "idle" });
+    const loadPreviousControllerRef = useRef<AbortController | null>(null);
+    const previousAwaitsLoadingPropRef = useRef(false);
+    const isLoadingPreviousRef = useRef(false);
+    const [loadPreviousSettleTick, setLoadPreviousSettleTick] = useState(0);
+    const canLoadPrevious = !!onLoadPrevious && hasPrevious && !isSparse;
+
+    const finishLoadPrevious = useCallback((error?: unknown) => {
+        loadPreviousControllerRef.current = null;
+        previousAwaitsLoadingPropRef.current = false;
+        isLoadingPreviousRef.current = false;
+        setLoadPreviousState(
+            error === undefined
+                ? { status: "idle" }
+                : { status: "error", error },
+        );
+    }, []);
+
+    const requestLoadPrevious = useCallback(() => {
+        if (
+            !canLoadPrevious ||
+            !onLoadPrevious ||
+            isLoadingPreviousRef.current ||
+            dataProp.length === 0
+        ) {
+            return;
+        }
+        isLoadingPreviousRef.current = true;
+        const controller = new AbortController();
+        loadPreviousControllerRef.current = controller;
+        setLoadPreviousState({ status: "loading" });
+
+        let result: void | Promise<void>;
+        try {
+            result = onLoadPrevious(pageSize, controller.signal);
+        } catch (error) {
+            finishLoadPrevious(
+                error ?? new Error(DEFAULT_LOCALE_TEXT.loadPreviousError),
+            );
+            return;
+        }
+        if (!result || typeof result.then !== "function") {
+            previousAwaitsLoadingPropRef.current = true;
+            setLoadPreviousSettleTick((tick) => tick + 1);
+            return;
+        }
+        result.then(
+            () => {
+                if (loadPreviousControllerRef.current === controller) {
+                    finishLoadPrevious();
+                }
+            },
+            (error: unknown) => {
+                if (
+                    loadPreviousControllerRef.current === controller &&
+                    !controller.signal.aborted
+                ) {
+                    finishLoadPrevious(
+                        error ??
+                            new Error(DEFAULT_LOCALE_TEXT.loadPreviousError),
+                    );
+                }
+            },
+        );
+    }, [
+        canLoadPrevious,
+        onLoadPrevious,
+        dataProp.length,
+        pageSize,
+        finishLoadPrevious,
+    ]);
+
+    // 맨 위에 닿았을 때 요청한다. (실패한 뒤에는 request 로만 다시 요청한다)
+    const checkLoadPrevious = useCallback(() => {
+        if (loadPreviousState.status !== "error") {
+            requestLoadPrevious();
+        }
+    }, [loadPreviousState.status, requestLoadPrevious]);
+
+    const isLoadingPrevious = useCallback(
+        () => isLoadingPreviousRef.current,
+        [],
+    );
+
+    // Promise 를 반환하지 않는 onLoadPrevious 는 loading 이 끝나거나(요청 직후 렌더 포함) data 가 바뀌면 완료로 본다.
+    useEffect(() => {
+        if (!loading && previousAwaitsLoadingPropRef.current) {
+            finishLoadPrevious();
+        }
+    }, [loading, loadPreviousSettleTick, finishLoadPrevious]);
+    const prevPreviousDataRef = useRef(dataProp);
+    useEffect(() => {
+        const changed = dataProp !== prevPreviousDataRef.current;
+        prevPreviousDataRef.current = dataProp;
+        if (changed && previousAwaitsLoadingPropRef.current) {
+            finishLoadPrevious();
+        }
+    }, [dataProp, finishLoadPrevious]);
+
+    // 데이터가 비워지거나 언마운트되면 진행 중인 위쪽 로드를 취소한다.
+    useEffect(() => {
+        if (dataProp.length === 0 && isLoadingPreviousRef.current) {
+            loadPreviousControllerRef.current?.abort();
+            finishLoadPrevious();
+        }
+    }, [dataProp.length, finishLoadPrevious]);
+    useEffect(
+        () => () => {
+            loadPreviousControllerRef.current?.abort();
+        },
+        [],
+    );
+
+    const loadPrevious = useMemo<LoadPreviousController>(
+        () => ({
+            status: loadPreviousState.status,
+            error: loadPreviousState.error,
+            canLoadPrevious,
+            request: requestLoadPrevious,
+            check: checkLoadPrevious,
+            isLoading: isLoadingPrevious,
+        }),
+        [
+            loadPreviousState,
+            canLoadPrevious,
+            requestLoadPrevious,
+            checkLoadPrevious,
+            isLoadingPrevious,
+        ],
+    );
+
+    return {
+        rows: data,
+        processedRows: processedData,
+        rowCount,
+        loadedRowCount,
+        isSparse,
+        rowGroups,
+        groupByIds,
+        collapsedGroupKeys: collapsedGroupSet,
+        toggleGroup,
+        tree,
+        orderedColumns,
+        visibleColumns,
+        columnVisibility: currentColumnVisibility,
+        setColumnOrder,
+        setColumnVisibility,
+        getColumnWidth,
+        setColumnWidth,
+        headerRows,
+        sortModel: currentSortModel,
+        isSortControlled,
+        handleSort,
+        filterModel: currentFilterModel,
+        handleFilterChange,
+        selection,
+        loadMore,
+        loadPrevious,
+        getRowId: resolveRowId,
+        getRowProps,
+    };
+}
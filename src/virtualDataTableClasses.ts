@@ -0,0 +1,42 @@
+/**
+ * virtualDataTableClasses.ts - 슬롯 클래스 이름
+ *
+ * MIT License
+ *
+ * Copyright (c) 2025 KIM YOUNG JIN (ehfuse@gmail.com)
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy
+ * of this software and associated documentation files (the "Software"), to deal
+ * in the Software without restriction, including without limitation the rights
+ * to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+ * copies of the Software, and to permit persons to whom the Software is
+ * furnished to do so, subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+ * FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+ * AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+ * LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+ * OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+ * SOFTWARE.
+ */
+
+import type { VirtualDataTableClassKey } from "./types";
+
+/**
+ * 슬롯 요소에 붙는 클래스 이름. 테마 styleOverrides 도 이 클래스로 적용되므로
+ * 외부 CSS 나 sx 에서 같은 요소를 고를 때도 쓸 수 있다.
+ */
+export const virtualDataTableClasses: Record<VirtualDataTableClassKey, string> =
+    {
+        root: "MuiVirtualDataTable-root",
+        headerCell: "MuiVirtualDataTable-headerCell",
+        row: "MuiVirtualDataTable-row",
+        cell: "MuiVirtualDataTable-cell",
+        footer: "MuiVirtualDataTable-footer",
+        empty: "MuiVirtualDataTable-empty",
+        loading: "MuiVirtualDataTable-loading",
+    };